@@ -0,0 +1,174 @@
+/**
+ * Pairing-based authentication for the plugin bridge
+ * The server prints a short-lived pairing code; a plugin that presents it is
+ * issued a token derived from a persisted server secret for later reconnects.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { log } from "../logger.js";
+
+const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+
+// Unambiguous characters only (no 0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const SECRET_FILE = "bridge-secret";
+
+export const DEFAULT_STATE_DIR = join(homedir(), ".vfx-forge-mcp");
+
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+export interface PairingCredentials {
+  pairingCode?: unknown;
+  token?: unknown;
+}
+
+export type AuthResult =
+  { ok: true; token?: string } | { ok: false; reason: string };
+
+export interface PairingManager {
+  getPairingCode: () => PairingCode;
+  regeneratePairingCode: () => PairingCode;
+  authenticate: (credentials: PairingCredentials) => AuthResult;
+}
+
+function generateCode(): string {
+  const bytes = randomBytes(8);
+  let code = "";
+  for (let i = 0; i < bytes.length; i++) {
+    if (i === 4) code += "-";
+    code += CODE_ALPHABET[bytes[i]! % CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+async function loadOrCreateSecret(stateDir: string): Promise<Buffer> {
+  const secretPath = join(stateDir, SECRET_FILE);
+  try {
+    const existing = await readFile(secretPath, "utf8");
+    if (existing.trim().length >= 64) {
+      return Buffer.from(existing.trim(), "hex");
+    }
+  } catch {
+    // Missing or unreadable, create a new one below
+  }
+
+  const secret = randomBytes(32);
+  await mkdir(stateDir, { recursive: true });
+  await writeFile(secretPath, secret.toString("hex"), { mode: 0o600 });
+  await chmod(secretPath, 0o600);
+  return secret;
+}
+
+export async function createPairingManager(
+  stateDir: string = DEFAULT_STATE_DIR,
+): Promise<PairingManager> {
+  const secret = await loadOrCreateSecret(stateDir);
+  let current: PairingCode = { code: generateCode(), expiresAt: 0 };
+  let failedAttempts = 0;
+
+  function signToken(tokenId: string): string {
+    return createHmac("sha256", secret)
+      .update(`plugin-token:${tokenId}`)
+      .digest("base64url");
+  }
+
+  function issueToken(): string {
+    const tokenId = randomBytes(12).toString("base64url");
+    return `${tokenId}.${signToken(tokenId)}`;
+  }
+
+  function verifyToken(token: string): boolean {
+    const [tokenId, signature, ...rest] = token.split(".");
+    if (!tokenId || !signature || rest.length > 0) return false;
+    return safeEqual(signature, signToken(tokenId));
+  }
+
+  function regeneratePairingCode(): PairingCode {
+    current = {
+      code: generateCode(),
+      expiresAt: Date.now() + PAIRING_CODE_TTL_MS,
+    };
+    failedAttempts = 0;
+    log.always(
+      `[Bridge] Pairing code: ${current.code} (expires in ${PAIRING_CODE_TTL_MS / 60000} minutes)`,
+    );
+    return current;
+  }
+
+  function getPairingCode(): PairingCode {
+    if (Date.now() >= current.expiresAt) {
+      return regeneratePairingCode();
+    }
+    return current;
+  }
+
+  function authenticate(credentials: PairingCredentials): AuthResult {
+    if (typeof credentials.token === "string" && credentials.token) {
+      if (verifyToken(credentials.token)) {
+        return { ok: true };
+      }
+      // Tokens don't expire; one fails only if it was forged or signed with
+      // another secret (the state directory was deleted or is a different one)
+      return { ok: false, reason: "Invalid token, pair again" };
+    }
+
+    if (
+      typeof credentials.pairingCode === "string" &&
+      credentials.pairingCode
+    ) {
+      if (Date.now() >= current.expiresAt) {
+        return { ok: false, reason: "Pairing code expired" };
+      }
+
+      const normalized = credentials.pairingCode.trim().toUpperCase();
+      if (safeEqual(normalized, current.code)) {
+        // Codes are single use; the next plugin gets a fresh one
+        regeneratePairingCode();
+        return { ok: true, token: issueToken() };
+      }
+
+      failedAttempts++;
+      if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+        log.warn(
+          "[Bridge] Too many failed pairing attempts, rotating pairing code",
+        );
+        regeneratePairingCode();
+      }
+      return { ok: false, reason: "Invalid pairing code" };
+    }
+
+    return { ok: false, reason: "Missing pairing code or token" };
+  }
+
+  return {
+    getPairingCode,
+    regeneratePairingCode,
+    authenticate,
+  };
+}
+
+/**
+ * Bearer token for the local control endpoint. It is derived from the server
+ * secret, so any process that can read the state directory can compute it.
+ */
+export async function loadControlToken(
+  stateDir: string = DEFAULT_STATE_DIR,
+): Promise<string> {
+  const secret = await loadOrCreateSecret(stateDir);
+  return createHmac("sha256", secret)
+    .update("control-token")
+    .digest("base64url");
+}
@@ -0,0 +1,400 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBridge, type PluginBridge } from "./connection.js";
+import { BridgeError } from "./errors.js";
+import { connectMockPlugin, type MockPlugin } from "../mock/mock-plugin.js";
+import type { DataModelFixture } from "../mock/datamodel.js";
+import fireball from "../mock/fixtures/fireball.json";
+
+const fixture = fireball as DataModelFixture;
+
+let stateDir: string;
+let bridge: PluginBridge;
+let plugins: MockPlugin[];
+
+function url() {
+  return `ws://localhost:${bridge.port}/ws`;
+}
+
+async function connect(
+  options: Parameters<typeof connectMockPlugin>[0] | object = {},
+) {
+  const plugin = await connectMockPlugin({
+    url: url(),
+    pairingCode: bridge.getPairingCode().code,
+    fixture,
+    ...options,
+  });
+  plugins.push(plugin);
+  return plugin;
+}
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  bridge = await createBridge(0, { stateDir, reconnectGraceMs: 500 });
+  plugins = [];
+});
+
+afterEach(async () => {
+  await Promise.all(plugins.map((plugin) => plugin.close()));
+  bridge.shutdown();
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+describe("authentication", () => {
+  test("rejects a handshake without credentials", async () => {
+    await expect(connectMockPlugin({ url: url(), fixture })).rejects.toThrow(
+      "UNAUTHENTICATED",
+    );
+    expect(bridge.isConnected()).toBe(false);
+  });
+
+  test("rejects a wrong pairing code", async () => {
+    await expect(
+      connectMockPlugin({ url: url(), pairingCode: "AAAA-AAAA", fixture }),
+    ).rejects.toThrow("Invalid pairing code");
+  });
+
+  test("issues a token that works for later connections", async () => {
+    const first = await connect();
+    expect(first.token).toBeString();
+    await first.close();
+
+    const second = await connect({
+      pairingCode: undefined,
+      token: first.token,
+    });
+    expect(second.sessionId).toBeString();
+  });
+
+  test("rejects a token signed with another secret", async () => {
+    const otherDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+    const other = await createBridge(0, { stateDir: otherDir });
+    try {
+      const plugin = await connectMockPlugin({
+        url: `ws://localhost:${other.port}/ws`,
+        pairingCode: other.getPairingCode().code,
+        fixture,
+      });
+      await plugin.close();
+
+      await expect(
+        connectMockPlugin({ url: url(), token: plugin.token, fixture }),
+      ).rejects.toThrow("Invalid token, pair again");
+    } finally {
+      other.shutdown();
+      await rm(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects origins that are not allowed", async () => {
+    const response = await fetch(`http://localhost:${bridge.port}/health`, {
+      headers: { Origin: "https://example.com" },
+    });
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("handshake", () => {
+  test("rejects incompatible protocol versions", async () => {
+    await expect(connect({ protocolVersion: 99 })).rejects.toThrow(
+      "INCOMPATIBLE_PROTOCOL",
+    );
+  });
+
+  test("only supports advertised methods", async () => {
+    await connect({ methods: ["get_children"] });
+    expect(bridge.supportsMethod("get_children")).toBe(true);
+    expect(bridge.supportsMethod("delete_instance")).toBe(false);
+  });
+});
+
+describe("protocol validation", () => {
+  test("closes sockets that send a malformed handshake", async () => {
+    const ws = new WebSocket(url());
+    const frames: { type: string; error?: { code: string } }[] = [];
+    ws.onmessage = (event) => {
+      const frame = JSON.parse(String(event.data));
+      frames.push(frame);
+      if (frame.type === "welcome") {
+        ws.send(
+          JSON.stringify({
+            type: "handshake",
+            params: { protocolVersion: "one", pairingCode: "AAAA-AAAA" },
+          }),
+        );
+      }
+    };
+    const closed = await new Promise<CloseEvent>((resolve) => {
+      ws.onclose = resolve;
+    });
+
+    expect(closed.code).toBe(4004);
+    expect(frames.at(-1)?.error?.code).toBe("PROTOCOL_ERROR");
+  });
+
+  test("reports invalid frames without dropping the session", async () => {
+    const plugin = await connect();
+    plugin.sendRaw("{not json");
+    plugin.sendRaw(JSON.stringify({ type: "event", id: "e1" }));
+    await Bun.sleep(50);
+
+    expect(plugin.errors.map((e) => e.code)).toEqual([
+      "PROTOCOL_ERROR",
+      "PROTOCOL_ERROR",
+    ]);
+    expect(bridge.isConnected()).toBe(true);
+  });
+
+  test("fails a request whose response is malformed", async () => {
+    const plugin = await connect({ responseDelayMs: 1000 });
+    const request = bridge.sendRequest("get_selection", {});
+    await Bun.sleep(20);
+
+    plugin.sendRaw(
+      JSON.stringify({
+        type: "response",
+        id: plugin.requests[0]!.id,
+        timestamp: "now",
+      }),
+    );
+
+    const error = await request.catch((e: BridgeError) => e);
+    expect((error as BridgeError).code).toBe("PROTOCOL_ERROR");
+  });
+});
+
+describe("sessions", () => {
+  test("routes requests to the requested session", async () => {
+    const alpha = await connect({ placeName: "Alpha", placeId: 1 });
+    const beta = await connect({ placeName: "Beta", placeId: 2 });
+
+    await bridge.sendRequest("get_selection", {}, { session: "Beta" });
+    expect(beta.requests.map((r) => r.method)).toEqual(["get_selection"]);
+    expect(alpha.requests).toHaveLength(0);
+
+    bridge.selectSession(beta.sessionId);
+    await bridge.sendRequest("get_selection", {});
+    expect(beta.requests).toHaveLength(2);
+  });
+
+  test("falls back to another session when the active one leaves", async () => {
+    const alpha = await connect({ placeName: "Alpha" });
+    const beta = await connect({ placeName: "Beta" });
+    expect(bridge.getConnectionInfo().activeSession).toBe(alpha.sessionId);
+
+    await alpha.close();
+    await Bun.sleep(600);
+    expect(bridge.getConnectionInfo().activeSession).toBe(beta.sessionId);
+  });
+});
+
+describe("requests", () => {
+  test("attaches idempotency keys to mutating requests only", async () => {
+    const plugin = await connect();
+    await bridge.sendRequest("get_tags", { path: "Workspace.Fireball" });
+    await bridge.sendRequest("add_tag", {
+      path: "Workspace.Fireball",
+      tag: "Hot",
+    });
+
+    expect(plugin.requests[0]!.idempotencyKey).toBeUndefined();
+    expect(plugin.requests[1]!.idempotencyKey).toBeString();
+  });
+
+  test("sends a cancel message when the caller aborts", async () => {
+    const plugin = await connect({ responseDelayMs: 200 });
+    const controller = new AbortController();
+
+    const request = bridge.sendRequest(
+      "query_descendants",
+      { selector: "ParticleEmitter" },
+      { signal: controller.signal },
+    );
+    await Bun.sleep(50);
+    controller.abort();
+
+    const error = await request.catch((e) => e);
+    expect(error).toBeInstanceOf(BridgeError);
+    expect((error as BridgeError).code).toBe("CANCELLED");
+    await Bun.sleep(20);
+    expect(plugin.cancelled).toEqual([plugin.requests[0]!.id]);
+  });
+
+  test("doesn't retry deletes that time out", async () => {
+    bridge.shutdown();
+    bridge = await createBridge(0, {
+      stateDir,
+      requestTimeouts: { get_tags: 50, delete_instance: 50 },
+    });
+    const plugin = await connect({ responseDelayMs: 100 });
+
+    for (const [method, attempts] of [
+      ["get_tags", 3],
+      ["delete_instance", 1],
+    ] as const) {
+      const error = await bridge
+        .sendRequest(method, { path: "Workspace.Fireball" })
+        .catch((e: BridgeError) => e);
+      expect((error as BridgeError).code).toBe("TIMEOUT");
+      expect(
+        plugin.requests.filter((request) => request.method === method),
+      ).toHaveLength(attempts);
+    }
+  });
+
+  test("forwards progress events to the caller", async () => {
+    await connect();
+    const progress: number[] = [];
+
+    await bridge.sendRequest(
+      "bulk_create_instances",
+      {
+        instances: [
+          { class_name: "Attachment", parent: "Workspace.Fireball.Core" },
+          { class_name: "Attachment", parent: "Workspace.Fireball.Core" },
+        ],
+      },
+      { onProgress: (update) => progress.push(update.progress) },
+    );
+
+    expect(progress).toEqual([1, 2]);
+  });
+});
+
+describe("heartbeats", () => {
+  test("doesn't mark a session stale while it works on a request", async () => {
+    bridge.shutdown();
+    bridge = await createBridge(0, {
+      stateDir,
+      heartbeatIntervalMs: 20,
+      staleAfterMs: 60,
+    });
+    await connect({ respondToPings: false, responseDelayMs: 150 });
+
+    const slow = bridge.sendRequest("get_children", { path: "Workspace" });
+    await Bun.sleep(100);
+    const next = bridge.sendRequest("get_children", { path: "Workspace" });
+    expect((await slow).result).toBeDefined();
+    expect((await next).result).toBeDefined();
+
+    // Silence with nothing in flight still counts
+    await Bun.sleep(150);
+    const error = await bridge
+      .sendRequest("get_children", { path: "Workspace" })
+      .catch((e: BridgeError) => e);
+    expect((error as BridgeError).code).toBe("SESSION_STALE");
+  });
+});
+
+describe("reconnects", () => {
+  test("re-sends in-flight reads after the plugin reconnects", async () => {
+    const first = await connect({ responseDelayMs: 100, placeId: 7 });
+    const request = bridge.sendRequest("get_children", {
+      path: "Workspace.Fireball",
+    });
+    await Bun.sleep(20);
+    await first.close();
+
+    const second = await connect({
+      pairingCode: undefined,
+      token: first.token,
+      dataModel: first.dataModel,
+      resumeSession: first.sessionId,
+    });
+    expect(second.sessionId).toBe(first.sessionId);
+
+    const response = await request;
+    expect(response.result).toMatchObject({ total: 1 });
+  });
+
+  test("fails queued requests when the grace window expires", async () => {
+    const plugin = await connect();
+    await plugin.close();
+
+    const error = await bridge
+      .sendRequest("get_selection", {})
+      .catch((e: BridgeError) => e);
+    expect((error as BridgeError).code).toBe("CONNECTION_LOST");
+    expect(bridge.isConnected()).toBe(false);
+  });
+});
+
+describe("metrics", () => {
+  async function scrape() {
+    const response = await fetch(`http://localhost:${bridge.port}/metrics`);
+    expect(response.headers.get("Content-Type")).toStartWith("text/plain");
+    return response.text();
+  }
+
+  test("counts requests, errors and payload bytes per method", async () => {
+    await connect();
+    await bridge.sendRequest("get_tags", { path: "Workspace.Fireball" });
+    await bridge.sendRequest("get_tags", { path: "Workspace.Missing" });
+
+    const text = await scrape();
+    expect(text).toContain(
+      'vfx_forge_bridge_requests_total{method="get_tags"} 2',
+    );
+    expect(text).toContain(
+      'vfx_forge_bridge_errors_total{method="get_tags",code="NOT_FOUND"} 1',
+    );
+    expect(text).toContain(
+      'vfx_forge_bridge_duration_seconds_count{method="get_tags"} 2',
+    );
+    expect(text).toContain(
+      'vfx_forge_bridge_duration_seconds_bucket{method="get_tags",le="+Inf"} 2',
+    );
+    expect(text).toMatch(
+      /vfx_forge_bridge_sent_bytes_total\{method="get_tags"\} [1-9]\d*/,
+    );
+    expect(text).toMatch(
+      /vfx_forge_bridge_received_bytes_total\{method="get_tags"\} [1-9]\d*/,
+    );
+    expect(text).toContain("vfx_forge_bridge_sessions 1");
+  });
+
+  test("counts error codes plugins make up as OTHER", async () => {
+    bridge.metrics.recordBridgeRequest("get_tags", {
+      durationMs: 1,
+      errorCode: "PLUGIN_SPECIFIC_12345",
+    });
+
+    const text = await scrape();
+    expect(text).toContain(
+      'vfx_forge_bridge_errors_total{method="get_tags",code="OTHER"} 1',
+    );
+    expect(text).not.toContain("PLUGIN_SPECIFIC_12345");
+  });
+
+  test("requires the token when one is set", async () => {
+    const guarded = await createBridge(0, {
+      stateDir,
+      metricsToken: "s3cret",
+    });
+    try {
+      const target = `http://localhost:${guarded.port}/metrics`;
+      expect((await fetch(target)).status).toBe(401);
+      const response = await fetch(target, {
+        headers: { Authorization: "Bearer s3cret" },
+      });
+      expect(response.status).toBe(200);
+    } finally {
+      guarded.shutdown();
+    }
+  });
+
+  test("counts reconnects", async () => {
+    const first = await connect();
+    await first.close();
+    await connect({
+      pairingCode: undefined,
+      token: first.token,
+      resumeSession: first.sessionId,
+    });
+
+    expect(await scrape()).toContain("vfx_forge_bridge_reconnects_total 1");
+  });
+});
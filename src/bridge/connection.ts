@@ -4,66 +4,278 @@
  */
 
 import type { ServerWebSocket } from "bun";
-import type {
-  BridgeMessage,
-  BridgeRequest,
-  BridgeResponse,
-  ErrorInfo,
+import type { ZodError } from "zod";
+import {
+  PluginMessageSchema,
+  ProgressEventParamsSchema,
+  type BridgeCancel,
+  type BridgeErrorMessage,
+  type BridgeEvent,
+  type BridgeHeartbeat,
+  type BridgeMessage,
+  type BridgePaired,
+  type BridgeRequest,
+  type BridgeResponse,
+  type BridgeSession,
+  type BridgeWelcome,
+  type ErrorInfo,
+  type HandshakeParams,
+  type PluginMessage,
 } from "../types/messages.js";
+import {
+  createPairingManager,
+  DEFAULT_STATE_DIR,
+  type PairingCode,
+} from "./auth.js";
+import { BridgeError } from "./errors.js";
+import { createMetrics, type Metrics } from "./metrics.js";
+import { getMethodPolicy, type MethodPolicy } from "./policies.js";
+import { createTrafficRecorder, type TrafficRecorder } from "./recorder.js";
+import { checkHttpAccess } from "../http.js";
+import { log } from "../logger.js";
 
-const REQUEST_TIMEOUT_MS = 30000;
+// Reported by /health so a second server can tell it found one of its own
+export const HEALTH_SERVICE = "vfx-forge-mcp";
+
+// Sockets that have not authenticated within this window are dropped
+export const DEFAULT_HANDSHAKE_TIMEOUT_MS = 30000;
+
+// How long a disconnected session is kept around for the plugin to come back
+export const DEFAULT_RECONNECT_GRACE_MS = 15000;
+
+// Sessions that stay silent for STALE_AFTER_MS (about three missed
+// heartbeats) are marked stale until they respond again
+export const DEFAULT_HEARTBEAT_INTERVAL_MS = 5000;
+export const DEFAULT_STALE_AFTER_MS = 15000;
+const LATENCY_SAMPLE_COUNT = 50;
+
+// Bridge protocol versions this server can talk to. Plugins that do not
+// advertise a version are treated as speaking version 1.
+export const PROTOCOL_VERSION = 1;
+const MIN_PROTOCOL_VERSION = 1;
+
+// Close codes sent when a plugin's handshake is rejected
+const CLOSE_INCOMPATIBLE_PROTOCOL = 4001;
+const CLOSE_UNAUTHENTICATED = 4002;
+const CLOSE_HANDSHAKE_TIMEOUT = 4003;
+const CLOSE_PROTOCOL_ERROR = 4004;
 
 interface PendingRequest {
+  sessionId: string;
+  request: BridgeRequest;
+  // Read-only requests are re-sent when the plugin reconnects mid-flight
+  resendable: boolean;
+  // False while queued for a session that is reconnecting
+  sent: boolean;
   resolve: (value: BridgeResponse) => void;
   reject: (error: Error) => void;
-  timeout: ReturnType<typeof setTimeout>;
+  // Only armed while the request is with the plugin
+  timeout?: ReturnType<typeof setTimeout>;
+  timeoutMs: number;
+  onTimeout: () => void;
+  onProgress?: (progress: RequestProgress) => void;
+  cleanup: () => void;
 }
 
-interface PluginConnection {
-  ws: ServerWebSocket<WebSocketData>;
+export interface RequestProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface RequestOptions {
+  // Session id, place name or place id (defaults to the active session)
+  session?: string;
+  // Aborting sends a cancel message to the plugin and rejects the request
+  signal?: AbortSignal;
+  // Called for plugin progress events tied to this request
+  onProgress?: (progress: RequestProgress) => void;
+  // Undo waypoint the plugin should record a mutating request under
+  transactionId?: string;
+}
+
+interface PluginSession {
+  id: string;
+  // null while waiting for the plugin to reconnect
+  ws: ServerWebSocket<WebSocketData> | null;
+  graceTimeout: ReturnType<typeof setTimeout> | null;
   pluginVersion: string;
+  placeName: string;
+  placeId: string;
+  connectedAt: number;
+  protocolVersion: number;
+  // null when the plugin did not advertise its methods (assume all supported)
+  methods: Set<string> | null;
+  lastSeenAt: number;
+  stale: boolean;
+  outstandingPing: { id: string; sentAt: number } | null;
+  // Most recent heartbeat round trips, oldest first
+  latencySamples: number[];
+}
+
+interface UnauthenticatedSocket {
+  ws: ServerWebSocket<WebSocketData>;
   connectedAt: number;
+  timeout: ReturnType<typeof setTimeout>;
 }
 
 interface WebSocketData {
   id: string;
+  // Set once the socket has authenticated and is bound to a session
+  sessionId?: string;
 }
 
+export interface BridgeOptions {
+  // Interface to listen on (default: all interfaces)
+  hostname?: string;
+  // Origins allowed to open a socket. Requests without an Origin header
+  // (Roblox Studio) are always allowed; browsers always send one.
+  allowedOrigins?: string[];
+  // Directory holding the persisted token secret
+  stateDir?: string;
+  // How long to queue requests for a disconnected session (0 disables)
+  reconnectGraceMs?: number;
+  heartbeatIntervalMs?: number;
+  staleAfterMs?: number;
+  handshakeTimeoutMs?: number;
+  // Per-method overrides of the request policy timeouts
+  requestTimeouts?: Record<string, number>;
+  // JSONL file to record requests, responses and events to (see recorder.ts)
+  recordPath?: string;
+  // Bearer token required to read /metrics; without one only clients on
+  // this machine may
+  metricsToken?: string;
+}
+
+export interface LatencyStats {
+  lastMs: number | null;
+  avgMs: number | null;
+  p95Ms: number | null;
+  samples: number;
+}
+
+export interface SessionInfo {
+  id: string;
+  placeName: string;
+  placeId: string;
+  pluginVersion: string;
+  protocolVersion: number;
+  methods: string[] | null;
+  connectedAt: number;
+  active: boolean;
+  reconnecting: boolean;
+  stale: boolean;
+  lastSeenAt: number;
+  latency: LatencyStats;
+}
+
+/**
+ * Answers an HTTP request; `clientAddress` is the peer's IP address
+ */
+export type HttpRouteHandler = (
+  req: Request,
+  clientAddress: string | null,
+) => Response | Promise<Response>;
+
 export interface PluginBridge {
+  // Port the server is listening on (useful when created with port 0)
+  port: number;
   sendRequest: (
     method: string,
     params: Record<string, unknown>,
+    options?: RequestOptions,
   ) => Promise<BridgeResponse>;
-  isConnected: () => boolean;
+  isConnected: (session?: string) => boolean;
+  supportsMethod: (method: string, session?: string) => boolean;
   shutdown: () => void;
-  onEvent: (handler: (event: BridgeMessage) => void) => void;
+  // Both return a function that removes the handler
+  onEvent: (handler: (event: BridgeMessage) => void) => () => void;
+  onCapabilitiesChanged: (handler: () => void) => () => void;
+  // Tool call and bridge request metrics, served from /metrics
+  metrics: Metrics;
+  // Serve other HTTP requests to `pathname` (and paths below it) from the
+  // bridge's server
+  addHttpRoute: (pathname: string, handler: HttpRouteHandler) => void;
+  listSessions: () => SessionInfo[];
+  selectSession: (session: string) => SessionInfo;
+  // Id of the session a selector refers to (default: the active session)
+  resolveSessionId: (session?: string) => string | null;
+  getPairingCode: (regenerate?: boolean) => PairingCode;
   getConnectionInfo: () => {
     connected: boolean;
     pluginVersion?: string;
     connectedAt?: number;
+    activeSession?: string;
+    sessionCount: number;
+    stale?: boolean;
+    latency?: LatencyStats;
   };
 }
 
-export async function createBridge(port: number): Promise<PluginBridge> {
-  let connection: PluginConnection | null = null;
+function computeLatencyStats(samples: number[]): LatencyStats {
+  if (samples.length === 0) {
+    return { lastMs: null, avgMs: null, p95Ms: null, samples: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const sum = samples.reduce((total, sample) => total + sample, 0);
+  const p95Index = Math.ceil(sorted.length * 0.95) - 1;
+
+  return {
+    lastMs: samples[samples.length - 1]!,
+    avgMs: Math.round(sum / samples.length),
+    p95Ms: sorted[p95Index]!,
+    samples: samples.length,
+  };
+}
+
+export async function createBridge(
+  port: number,
+  options: BridgeOptions = {},
+): Promise<PluginBridge> {
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+  const reconnectGraceMs =
+    options.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS;
+  const heartbeatIntervalMs =
+    options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+  const handshakeTimeoutMs =
+    options.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS;
+  const requestTimeouts = options.requestTimeouts ?? {};
+  const pairing = await createPairingManager(
+    options.stateDir ?? DEFAULT_STATE_DIR,
+  );
+  const unauthenticated = new Map<string, UnauthenticatedSocket>();
+  const sessions = new Map<string, PluginSession>();
+  let activeSessionId: string | null = null;
   const pendingRequests = new Map<string, PendingRequest>();
   const eventHandlers: Array<(event: BridgeMessage) => void> = [];
+  const capabilityHandlers: Array<() => void> = [];
+  let shuttingDown = false;
+  // Opened once the port is ours, so a server that finds the port taken
+  // doesn't truncate the running server's recording
+  let recorder: TrafficRecorder | null = null;
+
+  const httpRoutes = new Map<string, HttpRouteHandler>();
+  const metrics = createMetrics();
 
   const server = Bun.serve<WebSocketData>({
     port,
+    hostname: options.hostname,
 
     fetch(req, server) {
       const url = new URL(req.url);
 
+      const origin = req.headers.get("Origin");
+      if (origin && !allowedOrigins.has(origin)) {
+        log.warn(`[Bridge] Rejected request from origin ${origin}`);
+        return new Response("Forbidden", { status: 403 });
+      }
+
       // Handle WebSocket upgrade
       if (url.pathname === "/" || url.pathname === "/ws") {
         const id = crypto.randomUUID();
-        const upgraded = server.upgrade(req, {
-          data: { id },
-          headers: {
-            "Access-Control-Allow-Origin": "*",
-          },
-        });
+        const upgraded = server.upgrade(req, { data: { id } });
 
         if (upgraded) {
           return undefined;
@@ -74,21 +286,59 @@ export async function createBridge(port: number): Promise<PluginBridge> {
 
       // Health check endpoint
       if (url.pathname === "/health") {
+        const active = activeSessionId ? sessions.get(activeSessionId) : null;
         return Response.json({
           status: "ok",
-          connected: connection !== null,
+          service: HEALTH_SERVICE,
+          connected: sessions.size > 0,
           pendingRequests: pendingRequests.size,
-          pluginVersion: connection?.pluginVersion,
-          uptime: connection ? Date.now() - connection.connectedAt : 0,
+          pluginVersion: active?.pluginVersion,
+          uptime: active ? Date.now() - active.connectedAt : 0,
+          activeSession: activeSessionId ?? undefined,
+          sessions: listSessions(),
         });
       }
 
-      // CORS preflight
-      if (req.method === "OPTIONS") {
+      // Prometheus scrape endpoint
+      if (url.pathname === "/metrics") {
+        const denied = checkHttpAccess(
+          req,
+          server.requestIP(req)?.address ?? null,
+          options.metricsToken,
+        );
+        if (denied) {
+          return new Response(denied.message, { status: denied.status });
+        }
+        return new Response(
+          metrics.render({
+            bridge_sessions: {
+              help: "Connected or reconnecting plugin sessions",
+              value: sessions.size,
+            },
+            bridge_pending_requests: {
+              help: "Requests waiting for a plugin response",
+              value: pendingRequests.size,
+            },
+          }),
+          { headers: { "Content-Type": "text/plain; version=0.0.4" } },
+        );
+      }
+
+      const route = [...httpRoutes].find(
+        ([path]) =>
+          url.pathname === path || url.pathname.startsWith(`${path}/`),
+      )?.[1];
+      if (route) {
+        return route(req, server.requestIP(req)?.address ?? null);
+      }
+
+      // CORS preflight (only reached for allowed origins)
+      if (req.method === "OPTIONS" && origin) {
         return new Response(null, {
           status: 204,
           headers: {
-            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Origin": origin,
+            Vary: "Origin",
             "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
             "Access-Control-Allow-Headers": "Content-Type",
           },
@@ -100,181 +350,1000 @@ export async function createBridge(port: number): Promise<PluginBridge> {
 
     websocket: {
       open(ws) {
-        console.error("[Bridge] WebSocket connection opened");
-
-        // Close existing connection if any
-        if (connection) {
-          console.error("[Bridge] Closing existing connection");
-          connection.ws.close(1000, "New connection established");
-        }
+        log.debug(`[Bridge] WebSocket connection opened (${ws.data.id})`);
 
-        connection = {
+        // Sockets stay unauthenticated until a valid handshake arrives
+        unauthenticated.set(ws.data.id, {
           ws,
-          pluginVersion: "unknown",
           connectedAt: Date.now(),
-        };
+          timeout: setTimeout(() => {
+            log.warn(`[Bridge] Handshake timeout (${ws.data.id})`);
+            ws.close(CLOSE_HANDSHAKE_TIMEOUT, "Handshake timeout");
+          }, handshakeTimeoutMs),
+        });
 
         // Send welcome message
-        ws.send(
-          JSON.stringify({
-            type: "welcome",
-            serverVersion: "0.1.0",
-            timestamp: Date.now(),
-          }),
-        );
+        const welcome: BridgeWelcome = {
+          type: "welcome",
+          serverVersion: "0.1.0",
+          protocolVersion: PROTOCOL_VERSION,
+          minProtocolVersion: MIN_PROTOCOL_VERSION,
+          authRequired: true,
+          timestamp: Date.now(),
+        };
+        ws.send(JSON.stringify(welcome));
       },
 
       message(ws, message) {
+        const data =
+          typeof message === "string"
+            ? message
+            : new TextDecoder().decode(message);
+
+        let raw: unknown;
         try {
-          const data =
-            typeof message === "string"
-              ? message
-              : new TextDecoder().decode(message);
-          const parsed = JSON.parse(data) as BridgeMessage;
+          raw = JSON.parse(data);
+        } catch {
+          reportProtocolError(ws, undefined, "Message is not valid JSON");
+          return;
+        }
+
+        const parsed = PluginMessageSchema.safeParse(raw);
+        if (!parsed.success) {
+          handleMalformedMessage(ws, raw, parsed.error);
+          return;
+        }
 
-          handleMessage(parsed, ws);
+        try {
+          handleMessage(parsed.data, ws, Buffer.byteLength(data));
         } catch (error) {
-          console.error("[Bridge] Failed to parse message:", error);
+          log.error("[Bridge] Failed to handle message:", error);
         }
       },
 
       close(ws, code, reason) {
-        console.error(`[Bridge] WebSocket closed: ${code} ${reason}`);
+        log.debug(
+          `[Bridge] WebSocket closed (${ws.data.id}): ${code} ${reason}`,
+        );
 
-        if (connection?.ws === ws) {
-          connection = null;
+        const pendingSocket = unauthenticated.get(ws.data.id);
+        if (pendingSocket) {
+          clearTimeout(pendingSocket.timeout);
+          unauthenticated.delete(ws.data.id);
+          return;
+        }
 
-          // Reject all pending requests
-          for (const [id, pending] of pendingRequests) {
-            clearTimeout(pending.timeout);
-            pending.reject(new Error("Connection lost"));
-            pendingRequests.delete(id);
-          }
+        const session = ws.data.sessionId
+          ? sessions.get(ws.data.sessionId)
+          : undefined;
+        if (!session || session.ws !== ws || shuttingDown) {
+          return;
+        }
+
+        if (reconnectGraceMs > 0) {
+          beginReconnectGrace(session);
+        } else {
+          removeSession(session, "Connection lost");
         }
       },
     },
   });
+  recorder = options.recordPath
+    ? createTrafficRecorder(options.recordPath)
+    : null;
 
   function handleMessage(
-    message: BridgeMessage,
+    message: PluginMessage,
     ws: ServerWebSocket<WebSocketData>,
+    bytes: number,
   ) {
-    if ((message as { type: string }).type === "handshake") {
-      // Handle handshake from plugin
-      const params = (message as BridgeRequest).params;
-      if (connection && connection.ws === ws && params) {
-        connection.pluginVersion =
-          (params.pluginVersion as string) || "unknown";
-        console.error(
-          `[Bridge] Plugin connected, version: ${connection.pluginVersion}`,
-        );
+    if (message.type === "handshake") {
+      handleHandshake(ws, message.params);
+      return;
+    }
+
+    // Nothing but a handshake is accepted before authentication
+    if (!ws.data.sessionId) {
+      rejectSocket(
+        ws,
+        {
+          code: "UNAUTHENTICATED",
+          message: "Handshake with a pairing code or token required",
+        },
+        CLOSE_UNAUTHENTICATED,
+      );
+      return;
+    }
+
+    // Any traffic proves the plugin is alive
+    const session = sessions.get(ws.data.sessionId);
+    if (session) {
+      markSeen(session);
+    }
+
+    if (message.type === "pong") {
+      if (session) {
+        handlePong(session, message);
       }
       return;
     }
 
+    if (message.type === "response" || message.type === "event") {
+      recorder?.recordMessage(ws.data.sessionId, "from_plugin", message);
+    }
+
     if (message.type === "response") {
-      const response = message as BridgeResponse;
-      const pending = pendingRequests.get(response.id);
+      const pending = takePending(message.id);
 
       if (pending) {
-        clearTimeout(pending.timeout);
-        pendingRequests.delete(response.id);
-        pending.resolve(response);
+        metrics.recordBridgeBytes(pending.request.method, "received", bytes);
+        pending.resolve(message);
       }
       return;
     }
 
+    if (message.type === "event" && message.method === "progress") {
+      handleProgress(ws, message);
+      return;
+    }
+
     if (message.type === "event") {
       // Forward events to registered handlers
       for (const handler of eventHandlers) {
         try {
           handler(message);
         } catch (err) {
-          console.error("[Bridge] Event handler error:", err);
+          log.error("[Bridge] Event handler error:", err);
         }
       }
       return;
     }
   }
 
-  function sendRequest(
+  /**
+   * Tell the plugin it sent something the server cannot understand. Before
+   * authentication the socket is closed; afterwards only the frame is dropped.
+   */
+  function reportProtocolError(
+    ws: ServerWebSocket<WebSocketData>,
+    messageId: string | undefined,
+    message: string,
+    details?: Record<string, unknown>,
+  ) {
+    const error: ErrorInfo = { code: "PROTOCOL_ERROR", message, details };
+    if (!ws.data.sessionId) {
+      rejectSocket(ws, error, CLOSE_PROTOCOL_ERROR);
+      return;
+    }
+
+    log.warn(`[Bridge] Protocol error (${ws.data.id}): ${message}`);
+    const reply: BridgeErrorMessage = {
+      type: "error",
+      id: messageId,
+      error,
+      timestamp: Date.now(),
+    };
+    ws.send(JSON.stringify(reply));
+  }
+
+  function describeIssues(error: ZodError) {
+    return error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    }));
+  }
+
+  /**
+   * Reject a frame that failed validation. A malformed response still fails
+   * the request it answers instead of leaving it to time out.
+   */
+  function handleMalformedMessage(
+    ws: ServerWebSocket<WebSocketData>,
+    raw: unknown,
+    error: ZodError,
+  ) {
+    const frame =
+      raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    const messageId = typeof frame.id === "string" ? frame.id : undefined;
+    const type = typeof frame.type === "string" ? frame.type : "unknown";
+    const issues = describeIssues(error);
+
+    reportProtocolError(ws, messageId, `Malformed ${type} message`, {
+      type,
+      issues,
+    });
+
+    if (type === "response" && messageId && ws.data.sessionId) {
+      const pending = pendingRequests.get(messageId);
+      if (pending?.sessionId !== ws.data.sessionId) return;
+
+      takePending(messageId);
+      pending.reject(
+        new BridgeError(
+          "PROTOCOL_ERROR",
+          `Plugin sent a malformed response to ${pending.request.method}`,
+          { issues },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Route a plugin progress event to the request it belongs to. Progress also
+   * counts as a sign of life, so the request timeout starts over.
+   */
+  function handleProgress(
+    ws: ServerWebSocket<WebSocketData>,
+    event: BridgeEvent,
+  ) {
+    const parsed = ProgressEventParamsSchema.safeParse(event.params);
+    if (!parsed.success) {
+      reportProtocolError(ws, event.id, "Malformed progress event", {
+        issues: describeIssues(parsed.error),
+      });
+      return;
+    }
+
+    const params = parsed.data;
+    const pending = pendingRequests.get(params.requestId);
+    if (!pending?.sent) return;
+
+    clearTimeout(pending.timeout);
+    pending.timeout = setTimeout(pending.onTimeout, pending.timeoutMs);
+
+    try {
+      pending.onProgress?.({
+        progress: params.progress,
+        total: params.total,
+        message: params.message,
+      });
+    } catch (err) {
+      log.error("[Bridge] Progress handler error:", err);
+    }
+  }
+
+  function markSeen(session: PluginSession) {
+    session.lastSeenAt = Date.now();
+    if (session.stale) {
+      session.stale = false;
+      log.debug(
+        `[Bridge] Session ${session.placeName} (${session.id}) is responsive again`,
+      );
+    }
+  }
+
+  function handlePong(session: PluginSession, pong: BridgeHeartbeat) {
+    if (session.outstandingPing?.id !== pong.id) return;
+
+    session.latencySamples.push(Date.now() - session.outstandingPing.sentAt);
+    if (session.latencySamples.length > LATENCY_SAMPLE_COUNT) {
+      session.latencySamples.shift();
+    }
+    session.outstandingPing = null;
+  }
+
+  /**
+   * Ping every connected session and flag the ones that stopped answering.
+   * A hung or debugger-paused Studio keeps its socket open, so silence is the
+   * only signal.
+   */
+  function runHeartbeat() {
+    const now = Date.now();
+
+    for (const session of sessions.values()) {
+      if (!session.ws) continue;
+
+      // A plugin busy with a long request can't answer pings; that request's
+      // own timeout catches a hang instead
+      const busy = Array.from(pendingRequests.values()).some(
+        (pending) => pending.sessionId === session.id && pending.sent,
+      );
+      if (!session.stale && !busy && now - session.lastSeenAt > staleAfterMs) {
+        session.stale = true;
+        log.warn(
+          `[Bridge] Session ${session.placeName} (${session.id}) is unresponsive (no traffic for ${now - session.lastSeenAt}ms)`,
+        );
+      }
+
+      // Keep the original send time of an unanswered ping so a late pong
+      // still reports the real round trip
+      if (!session.outstandingPing) {
+        session.outstandingPing = { id: crypto.randomUUID(), sentAt: now };
+      }
+
+      const ping: BridgeHeartbeat = {
+        id: session.outstandingPing.id,
+        type: "ping",
+        timestamp: now,
+      };
+      try {
+        session.ws.send(JSON.stringify(ping));
+      } catch (error) {
+        log.error("[Bridge] Failed to send heartbeat:", error);
+      }
+    }
+  }
+
+  /**
+   * Remove a pending request and release its timer and abort listener
+   */
+  function takePending(id: string): PendingRequest | undefined {
+    const pending = pendingRequests.get(id);
+    if (!pending) return undefined;
+
+    pendingRequests.delete(id);
+    clearTimeout(pending.timeout);
+    pending.cleanup();
+    return pending;
+  }
+
+  /**
+   * Keep a dropped session around so a reloading plugin can pick it back up.
+   * In-flight reads are re-sent after reconnecting; in-flight writes fail
+   * because there is no way to tell whether they were applied.
+   */
+  function beginReconnectGrace(session: PluginSession) {
+    session.ws = null;
+
+    for (const [id, pending] of pendingRequests) {
+      if (pending.sessionId !== session.id || !pending.sent) continue;
+
+      if (pending.resendable) {
+        clearTimeout(pending.timeout);
+        pending.timeout = undefined;
+        pending.sent = false;
+      } else {
+        takePending(id);
+        pending.reject(
+          new BridgeError(
+            "CONNECTION_LOST",
+            `Connection lost while ${pending.request.method} was in progress. The change may have been partially applied; check the current state before retrying.`,
+            { method: pending.request.method, mayHavePartiallyApplied: true },
+          ),
+        );
+      }
+    }
+
+    session.graceTimeout = setTimeout(() => {
+      removeSession(
+        session,
+        `Plugin did not reconnect within ${reconnectGraceMs}ms`,
+      );
+    }, reconnectGraceMs);
+
+    log.warn(
+      `[Bridge] Session ${session.placeName} (${session.id}) disconnected, waiting ${reconnectGraceMs}ms for reconnect`,
+    );
+  }
+
+  function removeSession(session: PluginSession, reason: string) {
+    if (session.graceTimeout) {
+      clearTimeout(session.graceTimeout);
+    }
+    sessions.delete(session.id);
+
+    // Fall back to the most recently connected remaining session
+    if (activeSessionId === session.id) {
+      const remaining = Array.from(sessions.values()).sort(
+        (a, b) => b.connectedAt - a.connectedAt,
+      );
+      activeSessionId = remaining[0]?.id ?? null;
+    }
+
+    // Reject pending requests routed to this session
+    for (const [id, pending] of pendingRequests) {
+      if (pending.sessionId !== session.id) continue;
+      takePending(id);
+      pending.reject(new BridgeError("CONNECTION_LOST", reason));
+    }
+
+    log.warn(
+      `[Bridge] Session ${session.placeName} (${session.id}) removed: ${reason}`,
+    );
+    notifyCapabilitiesChanged();
+  }
+
+  /**
+   * Find a disconnected session the handshaking plugin is coming back to,
+   * either by the session id it was given or by its place identity.
+   */
+  function findResumableSession(
+    params: HandshakeParams,
+  ): PluginSession | undefined {
+    if (params.resumeSession !== undefined) {
+      const session = sessions.get(params.resumeSession);
+      return session && !session.ws ? session : undefined;
+    }
+
+    if (params.placeId === undefined || params.placeName === undefined) {
+      return undefined;
+    }
+
+    const matches = Array.from(sessions.values()).filter(
+      (s) =>
+        !s.ws &&
+        s.placeId === String(params.placeId) &&
+        s.placeName === params.placeName,
+    );
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  /**
+   * Send requests that were queued or interrupted while reconnecting
+   */
+  function flushQueuedRequests(session: PluginSession) {
+    for (const [id, pending] of pendingRequests) {
+      if (pending.sessionId !== session.id || pending.sent) continue;
+      transmit(session, id, pending);
+    }
+  }
+
+  function transmit(
+    session: PluginSession,
+    id: string,
+    pending: PendingRequest,
+  ) {
+    try {
+      const payload = JSON.stringify(pending.request);
+      session.ws!.send(payload);
+      recorder?.recordMessage(session.id, "to_plugin", pending.request);
+      metrics.recordBridgeBytes(
+        pending.request.method,
+        "sent",
+        Buffer.byteLength(payload),
+      );
+      pending.sent = true;
+      pending.timeout = setTimeout(pending.onTimeout, pending.timeoutMs);
+    } catch (error) {
+      takePending(id);
+      pending.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  function rejectSocket(
+    ws: ServerWebSocket<WebSocketData>,
+    error: ErrorInfo,
+    closeCode: number,
+  ) {
+    log.warn(`[Bridge] Rejecting handshake: ${error.message}`);
+    const message: BridgeErrorMessage = {
+      type: "error",
+      error,
+      timestamp: Date.now(),
+    };
+    ws.send(JSON.stringify(message));
+    ws.close(closeCode, error.code);
+  }
+
+  function handleHandshake(
+    ws: ServerWebSocket<WebSocketData>,
+    params: HandshakeParams,
+  ) {
+    const protocolVersion = params.protocolVersion ?? MIN_PROTOCOL_VERSION;
+
+    if (
+      protocolVersion < MIN_PROTOCOL_VERSION ||
+      protocolVersion > PROTOCOL_VERSION
+    ) {
+      rejectSocket(
+        ws,
+        {
+          code: "INCOMPATIBLE_PROTOCOL",
+          message: `Plugin protocol version ${protocolVersion} is not supported. This server supports versions ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}. Update ${protocolVersion < MIN_PROTOCOL_VERSION ? "the VFX Forge plugin" : "vfx-forge-mcp"}.`,
+          details: {
+            pluginProtocolVersion: protocolVersion,
+            minProtocolVersion: MIN_PROTOCOL_VERSION,
+            maxProtocolVersion: PROTOCOL_VERSION,
+          },
+        },
+        CLOSE_INCOMPATIBLE_PROTOCOL,
+      );
+      return;
+    }
+
+    // Authenticate new sockets; established sessions may re-handshake freely
+    let session = ws.data.sessionId
+      ? sessions.get(ws.data.sessionId)
+      : undefined;
+    let isNew = false;
+    let resumed = false;
+    if (!session) {
+      const pendingSocket = unauthenticated.get(ws.data.id);
+      if (!pendingSocket) return;
+
+      const auth = pairing.authenticate({
+        pairingCode: params.pairingCode,
+        token: params.token,
+      });
+      if (!auth.ok) {
+        rejectSocket(
+          ws,
+          { code: "UNAUTHENTICATED", message: auth.reason },
+          CLOSE_UNAUTHENTICATED,
+        );
+        return;
+      }
+
+      clearTimeout(pendingSocket.timeout);
+      unauthenticated.delete(ws.data.id);
+
+      session = findResumableSession(params);
+      if (session) {
+        clearTimeout(session.graceTimeout!);
+        session.graceTimeout = null;
+        session.ws = ws;
+        session.outstandingPing = null;
+        markSeen(session);
+        resumed = true;
+      } else {
+        session = {
+          id: ws.data.id,
+          ws,
+          graceTimeout: null,
+          pluginVersion: "unknown",
+          placeName: "unknown",
+          placeId: "unknown",
+          connectedAt: pendingSocket.connectedAt,
+          protocolVersion,
+          methods: null,
+          lastSeenAt: Date.now(),
+          stale: false,
+          outstandingPing: null,
+          latencySamples: [],
+        };
+        sessions.set(session.id, session);
+        isNew = true;
+      }
+      ws.data.sessionId = session.id;
+
+      // The first session to connect becomes the default target
+      if (!activeSessionId) {
+        activeSessionId = session.id;
+      }
+
+      // Tell the plugin which session to resume after a reload
+      const sessionMessage: BridgeSession = {
+        type: "session",
+        sessionId: session.id,
+        resumed,
+        timestamp: Date.now(),
+      };
+      ws.send(JSON.stringify(sessionMessage));
+
+      // Hand out a token so the plugin can reconnect without a new code
+      if (auth.token) {
+        const paired: BridgePaired = {
+          type: "paired",
+          token: auth.token,
+          timestamp: Date.now(),
+        };
+        ws.send(JSON.stringify(paired));
+      }
+    }
+
+    const methods = params.methods ? new Set(params.methods) : null;
+    const pluginVersion = params.pluginVersion || "unknown";
+
+    const changed =
+      isNew ||
+      session.pluginVersion !== pluginVersion ||
+      session.protocolVersion !== protocolVersion ||
+      !sameMethods(session.methods, methods);
+
+    session.pluginVersion = pluginVersion;
+    session.placeName = params.placeName || "unknown";
+    session.placeId =
+      params.placeId !== undefined ? String(params.placeId) : "unknown";
+    session.protocolVersion = protocolVersion;
+    session.methods = methods;
+
+    recorder?.recordSession(session.id, {
+      placeName: session.placeName,
+      placeId: session.placeId,
+      pluginVersion: session.pluginVersion,
+      protocolVersion,
+      methods: methods ? Array.from(methods) : null,
+    });
+
+    log.info(
+      `[Bridge] Plugin ${resumed ? "reconnected" : "connected"}: ${session.placeName} (place ${session.placeId}), version: ${session.pluginVersion}, protocol: ${protocolVersion}, methods: ${methods ? methods.size : "all"}`,
+    );
+
+    if (resumed) {
+      metrics.recordReconnect();
+      flushQueuedRequests(session);
+    }
+
+    if (changed) {
+      notifyCapabilitiesChanged();
+    }
+  }
+
+  function sameMethods(a: Set<string> | null, b: Set<string> | null) {
+    if (a === null || b === null) return a === b;
+    if (a.size !== b.size) return false;
+    for (const method of a) {
+      if (!b.has(method)) return false;
+    }
+    return true;
+  }
+
+  function notifyCapabilitiesChanged() {
+    for (const handler of capabilityHandlers) {
+      try {
+        handler();
+      } catch (err) {
+        log.error("[Bridge] Capability handler error:", err);
+      }
+    }
+  }
+
+  /**
+   * Resolve a session by id, place name or place id. Without a selector the
+   * active session is returned.
+   */
+  function resolveSession(selector?: string): PluginSession | null {
+    if (!selector) {
+      return activeSessionId ? (sessions.get(activeSessionId) ?? null) : null;
+    }
+
+    const byId = sessions.get(selector);
+    if (byId) return byId;
+
+    const matches = Array.from(sessions.values()).filter(
+      (s) => s.placeName === selector || s.placeId === selector,
+    );
+    if (matches.length > 1) {
+      throw new Error(
+        `Session "${selector}" is ambiguous (${matches.length} matches). Use a session id from list_sessions.`,
+      );
+    }
+    return matches[0] ?? null;
+  }
+
+  function toSessionInfo(session: PluginSession): SessionInfo {
+    return {
+      id: session.id,
+      placeName: session.placeName,
+      placeId: session.placeId,
+      pluginVersion: session.pluginVersion,
+      protocolVersion: session.protocolVersion,
+      methods: session.methods ? Array.from(session.methods) : null,
+      connectedAt: session.connectedAt,
+      active: session.id === activeSessionId,
+      reconnecting: session.ws === null,
+      stale: session.stale,
+      lastSeenAt: session.lastSeenAt,
+      latency: computeLatencyStats(session.latencySamples),
+    };
+  }
+
+  /**
+   * Send a request, recording its outcome in the metrics
+   */
+  async function sendRequest(
+    method: string,
+    params: Record<string, unknown>,
+    options: RequestOptions = {},
+  ): Promise<BridgeResponse> {
+    const startedAt = performance.now();
+    let errorCode: string | undefined;
+    try {
+      const response = await sendWithRetries(method, params, options);
+      errorCode = response.error?.code;
+      return response;
+    } catch (error) {
+      errorCode =
+        error instanceof BridgeError ? error.code : "OPERATION_FAILED";
+      throw error;
+    } finally {
+      metrics.recordBridgeRequest(method, {
+        durationMs: performance.now() - startedAt,
+        errorCode,
+      });
+    }
+  }
+
+  /**
+   * Send a request, retrying timeouts when the method's policy allows it.
+   * Retries of mutating methods reuse the idempotency key so the plugin can
+   * recognise a replay of a change it already applied.
+   */
+  async function sendWithRetries(
     method: string,
     params: Record<string, unknown>,
+    options: RequestOptions = {},
   ): Promise<BridgeResponse> {
+    const basePolicy = getMethodPolicy(method);
+    const policy = {
+      ...basePolicy,
+      timeoutMs: requestTimeouts[method] ?? basePolicy.timeoutMs,
+    };
+    const idempotencyKey = policy.mutating ? crypto.randomUUID() : undefined;
+    const maxAttempts = policy.retrySafe ? policy.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await sendAttempt(
+          method,
+          params,
+          options,
+          policy,
+          idempotencyKey,
+        );
+      } catch (error) {
+        const timedOut =
+          error instanceof BridgeError && error.code === "TIMEOUT";
+        if (!timedOut) throw error;
+        metrics.recordTimeout(method);
+
+        if (attempt >= maxAttempts || options.signal?.aborted) {
+          throw new BridgeError(
+            "TIMEOUT",
+            policy.mutating
+              ? `Request timed out after ${attempt} attempt(s): ${method}. The change may have been partially applied; check the current state before retrying.`
+              : `Request timed out after ${attempt} attempt(s): ${method}`,
+            {
+              method,
+              timeoutMs: policy.timeoutMs,
+              attempts: attempt,
+              mayHavePartiallyApplied: policy.mutating,
+            },
+          );
+        }
+
+        const delay = policy.backoffMs * 2 ** (attempt - 1);
+        log.warn(
+          `[Bridge] ${method} timed out, retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`,
+        );
+        await Bun.sleep(delay);
+      }
+    }
+  }
+
+  function sendAttempt(
+    method: string,
+    params: Record<string, unknown>,
+    options: RequestOptions,
+    policy: MethodPolicy,
+    idempotencyKey: string | undefined,
+  ): Promise<BridgeResponse> {
+    const { session, signal, onProgress, transactionId } = options;
+
     return new Promise((resolve, reject) => {
-      if (!connection) {
-        reject(new Error("Plugin not connected"));
+      if (signal?.aborted) {
+        reject(new BridgeError("CANCELLED", `Request cancelled: ${method}`));
+        return;
+      }
+
+      let target: PluginSession | null;
+      try {
+        target = resolveSession(session);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      if (!target) {
+        reject(
+          new BridgeError(
+            "CONNECTION_LOST",
+            session ? `Unknown session: ${session}` : "Plugin not connected",
+          ),
+        );
+        return;
+      }
+
+      // Fail fast instead of waiting out the timeout on a hung Studio
+      if (target.stale) {
+        reject(
+          new BridgeError(
+            "SESSION_STALE",
+            `Studio session ${target.placeName} has not responded for ${Date.now() - target.lastSeenAt}ms. It may be paused in the debugger or hung.`,
+            { session: target.id, lastSeenAt: target.lastSeenAt },
+          ),
+        );
         return;
       }
 
       const id = crypto.randomUUID();
+      const targetSession = target;
 
       const request: BridgeRequest = {
         id,
         type: "request",
         method,
         params,
+        ...(idempotencyKey ? { idempotencyKey } : {}),
+        ...(transactionId ? { transactionId } : {}),
         timestamp: Date.now(),
       };
 
-      const timeout = setTimeout(() => {
-        pendingRequests.delete(id);
-        reject(new Error(`Request timeout: ${method}`));
-      }, REQUEST_TIMEOUT_MS);
+      const onTimeout = () => {
+        if (takePending(id)) {
+          reject(new BridgeError("TIMEOUT", `Request timeout: ${method}`));
+        }
+      };
 
-      pendingRequests.set(id, { resolve, reject, timeout });
+      // Tell the plugin to stop working on it, then fail the call locally
+      const onAbort = () => {
+        const pending = takePending(id);
+        if (!pending) return;
 
-      try {
-        connection.ws.send(JSON.stringify(request));
-      } catch (error) {
-        clearTimeout(timeout);
-        pendingRequests.delete(id);
-        reject(error);
+        if (pending.sent && targetSession.ws) {
+          const cancel: BridgeCancel = {
+            id,
+            type: "cancel",
+            reason: "Cancelled by client",
+            timestamp: Date.now(),
+          };
+          try {
+            targetSession.ws.send(JSON.stringify(cancel));
+            recorder?.recordMessage(targetSession.id, "to_plugin", cancel);
+          } catch (error) {
+            log.error("[Bridge] Failed to send cancel:", error);
+          }
+        }
+        reject(new BridgeError("CANCELLED", `Request cancelled: ${method}`));
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const pending: PendingRequest = {
+        sessionId: target.id,
+        request,
+        resendable: !policy.mutating,
+        sent: false,
+        resolve,
+        reject,
+        timeoutMs: policy.timeoutMs,
+        onTimeout,
+        onProgress,
+        cleanup: () => signal?.removeEventListener("abort", onAbort),
+      };
+      pendingRequests.set(id, pending);
+
+      // Requests for a reconnecting session wait for the plugin to return
+      if (target.ws) {
+        transmit(target, id, pending);
       }
     });
   }
 
-  function isConnected(): boolean {
-    return connection !== null;
+  function isConnected(session?: string): boolean {
+    try {
+      return resolveSession(session) !== null;
+    } catch {
+      // Ambiguous selectors still mean something is connected
+      return true;
+    }
+  }
+
+  /**
+   * Check whether a method is implemented by the given session, or by any
+   * session that completed its handshake when no session is specified.
+   */
+  function supportsMethod(method: string, session?: string): boolean {
+    if (session) {
+      let target: PluginSession | null;
+      try {
+        target = resolveSession(session);
+      } catch {
+        return false;
+      }
+      return !!target && (target.methods?.has(method) ?? true);
+    }
+
+    for (const candidate of sessions.values()) {
+      if (candidate.methods?.has(method) ?? true) return true;
+    }
+    return false;
   }
 
   function shutdown(): void {
+    shuttingDown = true;
+    clearInterval(heartbeat);
+
     // Reject all pending requests
     for (const [id, pending] of pendingRequests) {
-      clearTimeout(pending.timeout);
+      takePending(id);
       pending.reject(new Error("Bridge shutting down"));
-      pendingRequests.delete(id);
     }
 
-    // Close connection
-    if (connection) {
-      connection.ws.close(1000, "Server shutting down");
-      connection = null;
+    // Close all sessions
+    for (const pendingSocket of unauthenticated.values()) {
+      clearTimeout(pendingSocket.timeout);
+      pendingSocket.ws.close(1000, "Server shutting down");
+    }
+    unauthenticated.clear();
+    for (const session of sessions.values()) {
+      if (session.graceTimeout) {
+        clearTimeout(session.graceTimeout);
+      }
+      session.ws?.close(1000, "Server shutting down");
     }
+    sessions.clear();
+    activeSessionId = null;
 
     // Stop the server
     server.stop();
+    recorder?.close();
+  }
+
+  function subscribe<T>(handlers: T[], handler: T): () => void {
+    handlers.push(handler);
+    return () => {
+      const index = handlers.indexOf(handler);
+      if (index !== -1) handlers.splice(index, 1);
+    };
+  }
+
+  function onEvent(handler: (event: BridgeMessage) => void): () => void {
+    return subscribe(eventHandlers, handler);
   }
 
-  function onEvent(handler: (event: BridgeMessage) => void): void {
-    eventHandlers.push(handler);
+  function onCapabilitiesChanged(handler: () => void): () => void {
+    return subscribe(capabilityHandlers, handler);
+  }
+
+  function listSessions(): SessionInfo[] {
+    return Array.from(sessions.values()).map(toSessionInfo);
+  }
+
+  function selectSession(selector: string): SessionInfo {
+    const session = resolveSession(selector);
+    if (!session) {
+      throw new Error(`Unknown session: ${selector}`);
+    }
+    activeSessionId = session.id;
+    log.info(
+      `[Bridge] Active session set to ${session.placeName} (${session.id})`,
+    );
+    return toSessionInfo(session);
+  }
+
+  function getPairingCode(regenerate = false): PairingCode {
+    return regenerate
+      ? pairing.regeneratePairingCode()
+      : pairing.getPairingCode();
   }
 
   function getConnectionInfo() {
+    const active = activeSessionId ? sessions.get(activeSessionId) : undefined;
     return {
-      connected: connection !== null,
-      pluginVersion: connection?.pluginVersion,
-      connectedAt: connection?.connectedAt,
+      connected: sessions.size > 0,
+      pluginVersion: active?.pluginVersion,
+      connectedAt: active?.connectedAt,
+      activeSession: active?.id,
+      sessionCount: sessions.size,
+      stale: active?.stale,
+      latency: active ? computeLatencyStats(active.latencySamples) : undefined,
     };
   }
 
-  console.error(`[Bridge] WebSocket server started on ws://localhost:${port}`);
+  const heartbeat = setInterval(runHeartbeat, heartbeatIntervalMs);
+
+  log.info(
+    `[Bridge] WebSocket server started on ws://localhost:${server.port}`,
+  );
+  pairing.getPairingCode();
 
   return {
+    port: server.port ?? port,
     sendRequest,
     isConnected,
+    supportsMethod,
     shutdown,
     onEvent,
+    onCapabilitiesChanged,
+    metrics,
+    addHttpRoute: (pathname, handler) => {
+      httpRoutes.set(pathname, handler);
+    },
+    listSessions,
+    selectSession,
+    resolveSessionId: (selector) => resolveSession(selector)?.id ?? null,
+    getPairingCode,
     getConnectionInfo,
   };
 }
@@ -0,0 +1,63 @@
+/**
+ * Error type for bridge failures that carry a machine-readable code
+ */
+
+import type { ErrorInfo } from "../types/messages.js";
+
+export class BridgeError extends Error {
+  readonly code: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: string,
+    message: string,
+    details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "BridgeError";
+    this.code = code;
+    this.details = details;
+  }
+
+  toErrorInfo(): ErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+}
+
+/**
+ * Error codes the server and plugin report. Plugins may send others; metrics
+ * count those together so labels stay bounded.
+ */
+export const KNOWN_ERROR_CODES: ReadonlySet<string> = new Set([
+  "ALREADY_EXISTS",
+  "CANCELLED",
+  "CONNECTION_LOST",
+  "HISTORY_CONFLICT",
+  "INCOMPATIBLE_PROTOCOL",
+  "INTERNAL_ERROR",
+  "INVALID_ARGUMENTS",
+  "INVALID_OPERATION",
+  "INVALID_REFERENCE",
+  "INVALID_SELECTOR",
+  "NOT_FOUND",
+  "NOTHING_TO_REDO",
+  "NOTHING_TO_UNDO",
+  "NO_TRANSACTION",
+  "OPERATION_FAILED",
+  "PERMISSION_DENIED",
+  "PROPERTY_NOT_FOUND",
+  "PROTOCOL_ERROR",
+  "READ_ONLY",
+  "REPLAY_EXHAUSTED",
+  "REPLAY_MISMATCH",
+  "SESSION_STALE",
+  "TIMEOUT",
+  "TRANSACTION_ACTIVE",
+  "UNAUTHENTICATED",
+  "UNKNOWN_METHOD",
+  "WORKFLOW_LIMIT",
+]);
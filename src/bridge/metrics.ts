@@ -0,0 +1,216 @@
+/**
+ * Bridge metrics
+ * Counters and latency histograms for tool calls and bridge requests, served
+ * in the Prometheus text format from /metrics on the bridge's server.
+ */
+
+import { KNOWN_ERROR_CODES } from "./errors.js";
+
+// Upper bounds in seconds; tool calls range from cached docs lookups to
+// bulk edits that take most of the bridge timeout
+const LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+const PREFIX = "vfx_forge";
+
+export interface CallSample {
+  durationMs: number;
+  // Set when the call failed
+  errorCode?: string;
+}
+
+export interface ToolCallSample extends CallSample {
+  // Serialized size of the arguments and of the result
+  argsBytes: number;
+  resultBytes: number;
+}
+
+export interface Metrics {
+  recordToolCall: (tool: string, sample: ToolCallSample) => void;
+  recordBridgeRequest: (method: string, sample: CallSample) => void;
+  recordBridgeBytes: (
+    method: string,
+    direction: "sent" | "received",
+    bytes: number,
+  ) => void;
+  // Counts every timed-out attempt, including ones that were retried
+  recordTimeout: (method: string) => void;
+  recordReconnect: () => void;
+  // Current values of gauges are supplied by the caller at scrape time
+  render: (gauges?: Record<string, { help: string; value: number }>) => string;
+}
+
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+  // Histograms only: cumulative counts per bucket, and the sum
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Family {
+  type: "counter" | "histogram";
+  help: string;
+  series: Map<string, Series>;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+export function createMetrics(): Metrics {
+  const families = new Map<string, Family>();
+
+  function seriesFor(
+    name: string,
+    type: Family["type"],
+    help: string,
+    labels: Labels,
+  ): Series {
+    let family = families.get(name);
+    if (!family) {
+      family = { type, help, series: new Map() };
+      families.set(name, family);
+    }
+    const key = formatLabels(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels, value: 0 };
+      if (type === "histogram") {
+        series.buckets = LATENCY_BUCKETS.map(() => 0);
+        series.sum = 0;
+      }
+      family.series.set(key, series);
+    }
+    return series;
+  }
+
+  function increment(name: string, help: string, labels: Labels, by = 1) {
+    seriesFor(name, "counter", help, labels).value += by;
+  }
+
+  function observe(name: string, help: string, labels: Labels, ms: number) {
+    const series = seriesFor(name, "histogram", help, labels);
+    const seconds = ms / 1000;
+    series.value++;
+    series.sum! += seconds;
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) series.buckets![i]!++;
+    });
+  }
+
+  function recordCall(
+    kind: "tool" | "bridge",
+    labels: Labels,
+    sample: CallSample,
+  ) {
+    const subject = kind === "tool" ? "Tool calls" : "Bridge requests";
+    const base = kind === "tool" ? `${PREFIX}_tool` : `${PREFIX}_bridge`;
+    const noun = kind === "tool" ? "calls" : "requests";
+    increment(`${base}_${noun}_total`, `${subject} made`, labels);
+    if (sample.errorCode) {
+      increment(`${base}_errors_total`, `${subject} that failed, by code`, {
+        ...labels,
+        // Plugins can make up codes; keep the label set bounded
+        code: KNOWN_ERROR_CODES.has(sample.errorCode)
+          ? sample.errorCode
+          : "OTHER",
+      });
+    }
+    observe(
+      `${base}_duration_seconds`,
+      `${subject} latency`,
+      labels,
+      sample.durationMs,
+    );
+  }
+
+  function render(
+    gauges: Record<string, { help: string; value: number }> = {},
+  ) {
+    const lines: string[] = [];
+    for (const [name, { help, value }] of Object.entries(gauges)) {
+      const full = `${PREFIX}_${name}`;
+      lines.push(`# HELP ${full} ${help}`, `# TYPE ${full} gauge`);
+      lines.push(`${full} ${value}`);
+    }
+    for (const [name, family] of families) {
+      lines.push(
+        `# HELP ${name} ${family.help}`,
+        `# TYPE ${name} ${family.type}`,
+      );
+      for (const series of family.series.values()) {
+        if (family.type === "counter") {
+          lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+          continue;
+        }
+        LATENCY_BUCKETS.forEach((bound, i) => {
+          const labels = formatLabels({ ...series.labels, le: String(bound) });
+          lines.push(`${name}_bucket${labels} ${series.buckets![i]}`);
+        });
+        const inf = formatLabels({ ...series.labels, le: "+Inf" });
+        lines.push(`${name}_bucket${inf} ${series.value}`);
+        lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`);
+        lines.push(
+          `${name}_count${formatLabels(series.labels)} ${series.value}`,
+        );
+      }
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  return {
+    recordToolCall: (tool, sample) => {
+      recordCall("tool", { tool }, sample);
+      increment(
+        `${PREFIX}_tool_args_bytes_total`,
+        "Serialized size of tool arguments",
+        { tool },
+        sample.argsBytes,
+      );
+      increment(
+        `${PREFIX}_tool_result_bytes_total`,
+        "Serialized size of tool results",
+        { tool },
+        sample.resultBytes,
+      );
+    },
+    recordBridgeRequest: (method, sample) =>
+      recordCall("bridge", { method }, sample),
+    recordBridgeBytes: (method, direction, bytes) =>
+      increment(
+        `${PREFIX}_bridge_${direction}_bytes_total`,
+        direction === "sent"
+          ? "Bytes of requests sent to the plugin"
+          : "Bytes of responses received from the plugin",
+        { method },
+        bytes,
+      ),
+    recordTimeout: (method) =>
+      increment(
+        `${PREFIX}_bridge_timeouts_total`,
+        "Bridge request attempts that timed out, including retried ones",
+        { method },
+      ),
+    recordReconnect: () =>
+      increment(
+        `${PREFIX}_bridge_reconnects_total`,
+        "Plugin sessions resumed after a disconnect",
+        {},
+      ),
+    render,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Per-method request policies for the plugin bridge
+ * Controls timeouts, retries and whether a method mutates the DataModel
+ */
+
+export interface MethodPolicy {
+  timeoutMs: number;
+  // Extra attempts after a timeout (0 = no retries)
+  retries: number;
+  // Delay before the first retry, doubled for each further attempt
+  backoffMs: number;
+  // Whether re-sending after a timeout cannot apply the change twice
+  retrySafe: boolean;
+  // Mutating requests carry an idempotency key the plugin can de-duplicate on
+  mutating: boolean;
+}
+
+const READ: MethodPolicy = {
+  timeoutMs: 15000,
+  retries: 2,
+  backoffMs: 250,
+  retrySafe: true,
+  mutating: false,
+};
+
+// Setting a value twice has the same result as setting it once
+const IDEMPOTENT_WRITE: MethodPolicy = {
+  timeoutMs: 30000,
+  retries: 1,
+  backoffMs: 500,
+  retrySafe: true,
+  mutating: true,
+};
+
+// Creating, cloning or scaling twice does not, and a retried create or
+// delete fails with ALREADY_EXISTS or NOT_FOUND if the first attempt landed
+const NON_IDEMPOTENT_WRITE: MethodPolicy = {
+  timeoutMs: 30000,
+  retries: 0,
+  backoffMs: 0,
+  retrySafe: false,
+  mutating: true,
+};
+
+const BULK_WRITE: MethodPolicy = {
+  ...NON_IDEMPOTENT_WRITE,
+  timeoutMs: 120000,
+};
+
+const DEFAULT_POLICY: MethodPolicy = {
+  timeoutMs: 30000,
+  retries: 0,
+  backoffMs: 0,
+  retrySafe: false,
+  mutating: true,
+};
+
+export const METHOD_POLICIES: Record<string, MethodPolicy> = {
+  // Instance exploration
+  query_descendants: { ...READ, timeoutMs: 60000 },
+  get_children: READ,
+  instance_exists: READ,
+
+  // Properties & attributes
+  get_properties: READ,
+  set_property: IDEMPOTENT_WRITE,
+  get_attributes: READ,
+  set_attribute: IDEMPOTENT_WRITE,
+  delete_attribute: IDEMPOTENT_WRITE,
+
+  // Tags
+  get_tags: READ,
+  add_tag: IDEMPOTENT_WRITE,
+  remove_tag: IDEMPOTENT_WRITE,
+  get_tagged_instances: READ,
+
+  // Selection
+  get_selection: READ,
+  set_selection: IDEMPOTENT_WRITE,
+
+  // Collision groups
+  create_collision_group: NON_IDEMPOTENT_WRITE,
+  delete_collision_group: NON_IDEMPOTENT_WRITE,
+  set_collision_group_collidable: IDEMPOTENT_WRITE,
+  get_collision_group_collidable: READ,
+  set_part_collision_group: IDEMPOTENT_WRITE,
+
+  // Instance creation & deletion
+  create_instance: NON_IDEMPOTENT_WRITE,
+  clone_instance: NON_IDEMPOTENT_WRITE,
+  bulk_clone_instances: BULK_WRITE,
+  delete_instance: NON_IDEMPOTENT_WRITE,
+  delete_instances: NON_IDEMPOTENT_WRITE,
+
+  // Bulk operations
+  bulk_scale: BULK_WRITE,
+  bulk_pivot_to: { ...IDEMPOTENT_WRITE, timeoutMs: 120000 },
+  bulk_delete: BULK_WRITE,
+  bulk_set_attribute: { ...IDEMPOTENT_WRITE, timeoutMs: 120000 },
+  bulk_set_property: { ...IDEMPOTENT_WRITE, timeoutMs: 120000 },
+  bulk_create_instances: BULK_WRITE,
+
+  // Transactions & undo history (keyed by transaction id, except undo/redo
+  // which step through the history)
+  begin_transaction: IDEMPOTENT_WRITE,
+  commit_transaction: IDEMPOTENT_WRITE,
+  rollback_transaction: IDEMPOTENT_WRITE,
+  undo: NON_IDEMPOTENT_WRITE,
+  redo: NON_IDEMPOTENT_WRITE,
+};
+
+/**
+ * Get the policy for a bridge method. Unknown methods are treated as
+ * non-retryable mutations.
+ */
+export function getMethodPolicy(method: string): MethodPolicy {
+  return METHOD_POLICIES[method] ?? DEFAULT_POLICY;
+}
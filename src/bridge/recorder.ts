@@ -0,0 +1,115 @@
+/**
+ * Bridge traffic recorder
+ * Writes plugin sessions and the requests, responses and events exchanged
+ * with them to a JSONL file, one entry per line, for later replay.
+ */
+
+import { closeSync, mkdirSync, openSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+  BridgeCancel,
+  BridgeEvent,
+  BridgeRequest,
+  BridgeResponse,
+} from "../types/messages.js";
+import { log } from "../logger.js";
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+export type RecordedMessage =
+  BridgeRequest | BridgeResponse | BridgeEvent | BridgeCancel;
+
+export interface RecordedSession {
+  placeName: string;
+  placeId: string;
+  pluginVersion: string;
+  protocolVersion: number;
+  methods: string[] | null;
+}
+
+// `t` is milliseconds since the recording started
+export type TrafficEntry =
+  | {
+      t: number;
+      kind: "header";
+      version: number;
+      startedAt: number;
+    }
+  | {
+      t: number;
+      kind: "session";
+      sessionId: string;
+      session: RecordedSession;
+    }
+  | {
+      t: number;
+      kind: "message";
+      sessionId: string;
+      direction: "to_plugin" | "from_plugin";
+      message: RecordedMessage;
+    };
+
+export interface TrafficRecorder {
+  path: string;
+  recordSession: (sessionId: string, session: RecordedSession) => void;
+  recordMessage: (
+    sessionId: string,
+    direction: "to_plugin" | "from_plugin",
+    message: RecordedMessage,
+  ) => void;
+  close: () => void;
+}
+
+/**
+ * Start recording to `path`, replacing any existing file. Entries are written
+ * synchronously so a recording survives the server crashing mid-session.
+ * Handshake credentials are never written; sessions are recorded by their
+ * metadata.
+ */
+export function createTrafficRecorder(path: string): TrafficRecorder {
+  mkdirSync(dirname(path), { recursive: true });
+  const fd = openSync(path, "w", 0o600);
+  const startedAt = Date.now();
+  let closed = false;
+
+  function write(entry: TrafficEntry) {
+    if (closed) return;
+    try {
+      writeSync(fd, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      log.error(`[Bridge] Failed to write recording ${path}:`, error);
+    }
+  }
+
+  write({
+    t: 0,
+    kind: "header",
+    version: RECORDING_FORMAT_VERSION,
+    startedAt,
+  });
+  log.info(`[Bridge] Recording bridge traffic to ${path}`);
+
+  return {
+    path,
+
+    recordSession(sessionId, session) {
+      write({ t: Date.now() - startedAt, kind: "session", sessionId, session });
+    },
+
+    recordMessage(sessionId, direction, message) {
+      write({
+        t: Date.now() - startedAt,
+        kind: "message",
+        sessionId,
+        direction,
+        message,
+      });
+    },
+
+    close() {
+      if (closed) return;
+      closed = true;
+      closeSync(fd);
+    },
+  };
+}
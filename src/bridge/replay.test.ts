@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBridge } from "./connection.js";
+import { BridgeError } from "./errors.js";
+import { createReplayBridge, loadRecording } from "./replay.js";
+import { connectMockPlugin } from "../mock/mock-plugin.js";
+import type { DataModelFixture } from "../mock/datamodel.js";
+import fireball from "../mock/fixtures/fireball.json";
+
+const fixture = fireball as DataModelFixture;
+
+let stateDir: string;
+let recordPath: string;
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  recordPath = join(stateDir, "session.jsonl");
+});
+
+afterEach(async () => {
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+/**
+ * Run a short session against the mock plugin with recording enabled
+ */
+async function recordSession() {
+  const bridge = await createBridge(0, { stateDir, recordPath });
+  const plugin = await connectMockPlugin({
+    url: `ws://localhost:${bridge.port}/ws`,
+    pairingCode: bridge.getPairingCode().code,
+    fixture,
+    placeName: "Arena",
+    methods: ["get_children", "set_property", "bulk_create_instances"],
+  });
+
+  const results = [
+    await bridge.sendRequest("get_children", { path: "Workspace" }),
+    await bridge.sendRequest("set_property", {
+      path: "Workspace.Fireball.Core",
+      property: "Transparency",
+      value: 0.5,
+    }),
+    await bridge.sendRequest("get_children", { path: "Workspace.Fireball" }),
+    await bridge.sendRequest("bulk_create_instances", {
+      instances: [
+        { class_name: "Attachment", parent: "Workspace.Fireball.Core" },
+        { class_name: "Attachment", parent: "Workspace.Fireball.Core" },
+      ],
+    }),
+  ];
+
+  await plugin.close();
+  bridge.shutdown();
+  return results;
+}
+
+describe("recording", () => {
+  test("writes sessions and traffic without credentials", async () => {
+    await recordSession();
+    const entries = await loadRecording(recordPath);
+
+    expect(entries[0]).toMatchObject({ kind: "header", version: 1 });
+    expect(entries[1]).toMatchObject({
+      kind: "session",
+      session: { placeName: "Arena" },
+    });
+    const kinds = entries
+      .filter((entry) => entry.kind === "message")
+      .map((entry) => `${entry.direction}:${entry.message.type}`);
+    expect(kinds.filter((k) => k === "to_plugin:request")).toHaveLength(4);
+    expect(kinds.filter((k) => k === "from_plugin:response")).toHaveLength(4);
+    expect(kinds).toContain("from_plugin:event");
+
+    const text = await readFile(recordPath, "utf8");
+    expect(text).not.toContain("pairingCode");
+    expect(text).not.toContain("token");
+  });
+
+  test("leaves the recording alone when the port is taken", async () => {
+    const bridge = await createBridge(0, { stateDir, recordPath });
+    await connectMockPlugin({
+      url: `ws://localhost:${bridge.port}/ws`,
+      pairingCode: bridge.getPairingCode().code,
+      fixture,
+    }).then((plugin) => plugin.close());
+    const before = await readFile(recordPath, "utf8");
+
+    await expect(
+      createBridge(bridge.port, { stateDir, recordPath }),
+    ).rejects.toThrow();
+    expect(await readFile(recordPath, "utf8")).toBe(before);
+    bridge.shutdown();
+  });
+});
+
+describe("replay", () => {
+  test("answers requests with the recorded responses", async () => {
+    const recorded = await recordSession();
+    const bridge = await createReplayBridge(recordPath);
+
+    // Same requests in a different order still match by params
+    const children = await bridge.sendRequest("get_children", {
+      path: "Workspace.Fireball",
+    });
+    expect(children.result).toEqual(recorded[2]!.result);
+
+    const root = await bridge.sendRequest("get_children", {
+      path: "Workspace",
+    });
+    expect(root.result).toEqual(recorded[0]!.result);
+  });
+
+  test("replays progress events", async () => {
+    await recordSession();
+    const bridge = await createReplayBridge(recordPath);
+    const progress: number[] = [];
+
+    await bridge.sendRequest(
+      "bulk_create_instances",
+      {
+        instances: [
+          { class_name: "Attachment", parent: "Workspace.Fireball.Core" },
+          { class_name: "Attachment", parent: "Workspace.Fireball.Core" },
+        ],
+      },
+      { onProgress: (update) => progress.push(update.progress) },
+    );
+    expect(progress).toEqual([1, 2]);
+  });
+
+  test("reports recorded sessions and capabilities", async () => {
+    await recordSession();
+    const bridge = await createReplayBridge(recordPath);
+
+    expect(bridge.listSessions().map((s) => s.placeName)).toEqual(["Arena"]);
+    expect(bridge.isConnected("Arena")).toBe(true);
+    expect(bridge.supportsMethod("get_children")).toBe(true);
+    expect(bridge.supportsMethod("delete_instance")).toBe(false);
+  });
+
+  test("fails on requests the recording has no match for", async () => {
+    await recordSession();
+    const bridge = await createReplayBridge(recordPath);
+
+    const error = await bridge
+      .sendRequest("get_children", { path: "Lighting" })
+      .catch((e: BridgeError) => e);
+    expect((error as BridgeError).code).toBe("REPLAY_MISMATCH");
+    expect((error as BridgeError).details?.recorded).toEqual([
+      { path: "Workspace" },
+      { path: "Workspace.Fireball" },
+    ]);
+
+    const loose = await createReplayBridge(recordPath, {
+      looseMatching: true,
+    });
+    const standIn = await loose.sendRequest("get_children", {
+      path: "Lighting",
+    });
+    expect(standIn.result).toBeDefined();
+  });
+
+  test("fails once the recorded responses run out", async () => {
+    await recordSession();
+    const bridge = await createReplayBridge(recordPath, {
+      looseMatching: true,
+    });
+    await bridge.sendRequest("set_property", {});
+
+    const error = await bridge
+      .sendRequest("set_property", {})
+      .catch((e: BridgeError) => e);
+    expect((error as BridgeError).code).toBe("REPLAY_EXHAUSTED");
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Bridge traffic replay
+ * A PluginBridge that answers requests from a recording made with
+ * BridgeOptions.recordPath instead of a live plugin socket.
+ */
+
+import { readFile } from "node:fs/promises";
+import type {
+  BridgeRequest,
+  BridgeResponse,
+  ProgressEventParams,
+} from "../types/messages.js";
+import type {
+  PluginBridge,
+  RequestOptions,
+  SessionInfo,
+} from "./connection.js";
+import { BridgeError } from "./errors.js";
+import { createMetrics } from "./metrics.js";
+import {
+  RECORDING_FORMAT_VERSION,
+  type RecordedSession,
+  type TrafficEntry,
+} from "./recorder.js";
+import { log } from "../logger.js";
+
+export interface ReplayOptions {
+  // Wait as long as the plugin originally took to respond (default: false)
+  preserveTiming?: boolean;
+  // Answer a request whose params match no recording with the next recorded
+  // request for the method (default: false, which fails with REPLAY_MISMATCH)
+  looseMatching?: boolean;
+}
+
+// A recorded request together with the plugin's answer to it
+interface RecordedExchange {
+  sessionId: string;
+  request: BridgeRequest;
+  // Canonical params used for matching
+  key: string;
+  response: BridgeResponse | null;
+  progress: Array<{ t: number; params: ProgressEventParams }>;
+  sentAt: number;
+  respondedAt: number;
+  used: boolean;
+}
+
+/**
+ * Parse a recording. Throws if the file is not a recording this version can
+ * read.
+ */
+export async function loadRecording(path: string): Promise<TrafficEntry[]> {
+  const text = await readFile(path, "utf8");
+  const entries = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as TrafficEntry;
+      } catch {
+        throw new Error(`${path}:${index + 1}: invalid JSON`);
+      }
+    });
+
+  const header = entries[0];
+  if (header?.kind !== "header") {
+    throw new Error(`${path} is not a bridge recording`);
+  }
+  if (header.version > RECORDING_FORMAT_VERSION) {
+    throw new Error(
+      `${path} uses recording format ${header.version}; this server reads up to ${RECORDING_FORMAT_VERSION}`,
+    );
+  }
+  return entries;
+}
+
+// JSON with sorted keys, so params match regardless of key order
+function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, inner: unknown) => {
+    if (inner && typeof inner === "object" && !Array.isArray(inner)) {
+      return Object.fromEntries(
+        Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)),
+      );
+    }
+    return inner;
+  });
+}
+
+function collectExchanges(entries: TrafficEntry[]): RecordedExchange[] {
+  const exchanges = new Map<string, RecordedExchange>();
+
+  for (const entry of entries) {
+    if (entry.kind !== "message") continue;
+    const { message } = entry;
+
+    if (message.type === "request") {
+      // Reads re-sent after a reconnect keep their request id; keep the
+      // first send time. Retries after a timeout get a new id.
+      if (!exchanges.has(message.id)) {
+        exchanges.set(message.id, {
+          sessionId: entry.sessionId,
+          request: message,
+          key: `${message.method}:${canonicalize(message.params)}`,
+          response: null,
+          progress: [],
+          sentAt: entry.t,
+          respondedAt: entry.t,
+          used: false,
+        });
+      }
+    } else if (message.type === "response") {
+      const exchange = exchanges.get(message.id);
+      if (exchange) {
+        exchange.response = message;
+        exchange.respondedAt = entry.t;
+      }
+    } else if (message.type === "event" && message.method === "progress") {
+      const params = message.params as unknown as ProgressEventParams;
+      exchanges.get(params.requestId)?.progress.push({ t: entry.t, params });
+    }
+  }
+
+  // Requests that never got an answer (cancelled, timed out) can't be replayed
+  return Array.from(exchanges.values()).filter((e) => e.response !== null);
+}
+
+function collectSessions(entries: TrafficEntry[]) {
+  const sessions = new Map<string, RecordedSession & { connectedAt: number }>();
+  for (const entry of entries) {
+    if (entry.kind === "session") {
+      sessions.set(entry.sessionId, {
+        ...entry.session,
+        connectedAt: sessions.get(entry.sessionId)?.connectedAt ?? entry.t,
+      });
+    }
+  }
+  return sessions;
+}
+
+export async function createReplayBridge(
+  path: string,
+  options: ReplayOptions = {},
+): Promise<PluginBridge> {
+  const entries = await loadRecording(path);
+  const header = entries[0] as Extract<TrafficEntry, { kind: "header" }>;
+  const exchanges = collectExchanges(entries);
+  const sessions = collectSessions(entries);
+  let activeSessionId: string | null = sessions.keys().next().value ?? null;
+
+  log.info(
+    `[Bridge] Replaying ${exchanges.length} recorded requests from ${path}`,
+  );
+
+  function resolveSession(selector?: string): string | null {
+    if (!selector) return activeSessionId;
+    if (sessions.has(selector)) return selector;
+
+    const matches = Array.from(sessions.entries()).filter(
+      ([, s]) => s.placeName === selector || s.placeId === selector,
+    );
+    if (matches.length > 1) {
+      throw new Error(
+        `Session "${selector}" is ambiguous (${matches.length} matches). Use a session id from list_sessions.`,
+      );
+    }
+    return matches[0]?.[0] ?? null;
+  }
+
+  /**
+   * Find the recorded answer for a request. Only exact params match unless
+   * looseMatching is set, in which case the next unused request for the same
+   * method stands in so a replay can still move forward.
+   */
+  function findExchange(
+    method: string,
+    params: Record<string, unknown>,
+    sessionId: string | null,
+  ): RecordedExchange {
+    const candidates = exchanges.filter(
+      (e) =>
+        !e.used &&
+        e.request.method === method &&
+        (!sessionId || e.sessionId === sessionId),
+    );
+    const key = `${method}:${canonicalize(params)}`;
+    const exact = candidates.find((e) => e.key === key);
+    if (exact) return exact;
+
+    const next = candidates[0];
+    if (!next) {
+      throw new BridgeError(
+        "REPLAY_EXHAUSTED",
+        `No recorded response left for ${method}`,
+        { method, params },
+      );
+    }
+    if (!options.looseMatching) {
+      throw new BridgeError(
+        "REPLAY_MISMATCH",
+        `No recorded ${method} call has these params`,
+        { method, params, recorded: candidates.map((e) => e.request.params) },
+      );
+    }
+    log.warn(
+      `[Bridge] Replay: no recorded ${method} call with matching params, using the next recorded ${method} call`,
+    );
+    return next;
+  }
+
+  function sendRequest(
+    method: string,
+    params: Record<string, unknown>,
+    requestOptions: RequestOptions = {},
+  ): Promise<BridgeResponse> {
+    return new Promise((resolve, reject) => {
+      let sessionId: string | null;
+      try {
+        sessionId = requestOptions.session
+          ? resolveSession(requestOptions.session)
+          : null;
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      if (requestOptions.session && !sessionId) {
+        reject(
+          new BridgeError(
+            "CONNECTION_LOST",
+            `Unknown session: ${requestOptions.session}`,
+          ),
+        );
+        return;
+      }
+
+      let exchange: RecordedExchange;
+      try {
+        exchange = findExchange(method, params, sessionId);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      exchange.used = true;
+
+      const timers: Array<ReturnType<typeof setTimeout>> = [];
+      const schedule = (t: number, fn: () => void) => {
+        const delay = options.preserveTiming ? t - exchange.sentAt : 0;
+        timers.push(setTimeout(fn, delay));
+      };
+
+      const onAbort = () => {
+        timers.forEach(clearTimeout);
+        reject(new BridgeError("CANCELLED", `Request cancelled: ${method}`));
+      };
+      if (requestOptions.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      requestOptions.signal?.addEventListener("abort", onAbort, {
+        once: true,
+      });
+
+      for (const { t, params: progress } of exchange.progress) {
+        schedule(t, () =>
+          requestOptions.onProgress?.({
+            progress: progress.progress,
+            total: progress.total,
+            message: progress.message,
+          }),
+        );
+      }
+      schedule(exchange.respondedAt, () => {
+        requestOptions.signal?.removeEventListener("abort", onAbort);
+        resolve({ ...exchange.response!, timestamp: Date.now() });
+      });
+    });
+  }
+
+  function supportsMethod(method: string, session?: string): boolean {
+    let ids: string[];
+    try {
+      const target = session ? resolveSession(session) : null;
+      if (session && !target) return false;
+      ids = target ? [target] : Array.from(sessions.keys());
+    } catch {
+      return false;
+    }
+    // Recordings without session metadata support whatever was recorded
+    if (ids.length === 0) {
+      return exchanges.some((e) => e.request.method === method);
+    }
+    return ids.some(
+      (id) => sessions.get(id)!.methods?.includes(method) ?? true,
+    );
+  }
+
+  function toSessionInfo(id: string): SessionInfo {
+    const session = sessions.get(id)!;
+    return {
+      id,
+      placeName: session.placeName,
+      placeId: session.placeId,
+      pluginVersion: session.pluginVersion,
+      protocolVersion: session.protocolVersion,
+      methods: session.methods,
+      connectedAt: header.startedAt + session.connectedAt,
+      active: id === activeSessionId,
+      reconnecting: false,
+      stale: false,
+      lastSeenAt: Date.now(),
+      latency: { lastMs: null, avgMs: null, p95Ms: null, samples: 0 },
+    };
+  }
+
+  return {
+    port: 0,
+    sendRequest,
+    isConnected: (session) => {
+      try {
+        return session
+          ? resolveSession(session) !== null
+          : sessions.size > 0 || exchanges.length > 0;
+      } catch {
+        return false;
+      }
+    },
+    supportsMethod,
+    shutdown: () => {},
+    // A replay has no live plugin, so events and capability changes never fire
+    onEvent: () => () => {},
+    onCapabilitiesChanged: () => () => {},
+    // Only tool calls are counted; nothing scrapes a replay
+    metrics: createMetrics(),
+    addHttpRoute: () => {
+      throw new Error("A replay bridge has no HTTP server");
+    },
+    listSessions: () => Array.from(sessions.keys()).map(toSessionInfo),
+    selectSession: (selector) => {
+      const id = resolveSession(selector);
+      if (!id) {
+        throw new Error(`Unknown session: ${selector}`);
+      }
+      activeSessionId = id;
+      return toSessionInfo(id);
+    },
+    resolveSessionId: resolveSession,
+    getPairingCode: () => {
+      throw new Error("Pairing is not available while replaying a recording");
+    },
+    getConnectionInfo: () => {
+      const active = activeSessionId ? sessions.get(activeSessionId) : null;
+      return {
+        connected: true,
+        pluginVersion: active?.pluginVersion,
+        connectedAt: active ? header.startedAt + active.connectedAt : undefined,
+        activeSession: activeSessionId ?? undefined,
+        sessionCount: sessions.size,
+        stale: false,
+      };
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CONFIG_FILE_NAME, loadServerConfig } from "./config.js";
+
+let root: string;
+let globalDir: string;
+let cwd: string;
+
+async function writeConfig(dir: string, config: unknown) {
+  await writeFile(join(dir, CONFIG_FILE_NAME), JSON.stringify(config));
+}
+
+function load(env: Record<string, string | undefined> = {}) {
+  return loadServerConfig({ env, cwd, globalDir });
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  globalDir = join(root, "global");
+  cwd = join(root, "project");
+  await mkdir(globalDir);
+  await mkdir(cwd);
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("server config", () => {
+  test("uses defaults when nothing is configured", async () => {
+    const config = await load({ VFX_FORGE_STATE_DIR: join(root, "state") });
+    expect(config.bridge.port).toBe(3847);
+    expect(config.http).toEqual({ enabled: false, token: null });
+    expect(config.auditLog).toBe(join(root, "state", "audit.jsonl"));
+    expect(config.docs.cacheDir).toBe(join(root, "state", "docs"));
+    expect(config.tools.groups).toBeNull();
+    expect(config.sources).toEqual([]);
+  });
+
+  test("layers the project file over the global one and env over both", async () => {
+    await writeConfig(globalDir, {
+      bridge: { port: 4000, host: "127.0.0.1" },
+      limits: { transactions: 5 },
+      logLevel: "warn",
+    });
+    await writeConfig(cwd, {
+      bridge: { port: 4100 },
+      auditLog: "logs/audit.jsonl",
+    });
+
+    const config = await load({ VFX_FORGE_PORT: "4200" });
+    expect(config.bridge.port).toBe(4200);
+    expect(config.bridge.host).toBe("127.0.0.1");
+    expect(config.limits).toMatchObject({ transactions: 5, queryResults: 100 });
+    expect(config.logLevel).toBe("warn");
+    // Relative to the file that set it
+    expect(config.auditLog).toBe(join(cwd, "logs", "audit.jsonl"));
+    expect(config.sources).toEqual([
+      join(globalDir, CONFIG_FILE_NAME),
+      join(cwd, CONFIG_FILE_NAME),
+    ]);
+  });
+
+  test("reads tool groups and HTTP settings from the environment", async () => {
+    const config = await load({
+      VFX_FORGE_TOOL_GROUPS: "exploration, docs",
+      VFX_FORGE_HTTP: "1",
+      VFX_FORGE_HTTP_TOKEN: "s3cret",
+      VFX_FORGE_ALLOWED_ORIGINS: "https://a.example, https://b.example",
+    });
+    expect(config.tools.groups).toEqual(["exploration", "docs"]);
+    expect(config.http).toEqual({ enabled: true, token: "s3cret" });
+    expect(config.bridge.allowedOrigins).toEqual([
+      "https://a.example",
+      "https://b.example",
+    ]);
+  });
+
+  test("names the source and field of invalid settings", async () => {
+    await writeConfig(cwd, { bridge: { port: "high" }, colour: "red" });
+    const error = await load().catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(join(cwd, CONFIG_FILE_NAME));
+    expect((error as Error).message).toContain("bridge.port");
+    expect((error as Error).message).toContain("colour");
+
+    await rm(join(cwd, CONFIG_FILE_NAME));
+    await expect(load({ VFX_FORGE_TOOL_GROUPS: "magic" })).rejects.toThrow(
+      "Invalid configuration in environment: tools.groups.0",
+    );
+  });
+
+  test("requires the file named by VFX_FORGE_CONFIG", async () => {
+    await expect(load({ VFX_FORGE_CONFIG: "missing.json" })).rejects.toThrow(
+      "ENOENT",
+    );
+
+    await writeFile(join(root, "custom.json"), '{"logLevel":"debug"}');
+    const config = await load({ VFX_FORGE_CONFIG: "../custom.json" });
+    expect(config.logLevel).toBe("debug");
+  });
+});
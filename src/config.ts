@@ -0,0 +1,347 @@
+/**
+ * Server configuration
+ * Settings are read from vfx-forge.config.json files, the user-global one in
+ * the state directory first and then the project's, with environment
+ * variables taking precedence over both. The merged result is validated at
+ * startup; anything not set falls back to the defaults below.
+ */
+
+import { readFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { z } from "zod";
+import { DEFAULT_STATE_DIR } from "./bridge/auth.js";
+import {
+  DEFAULT_HANDSHAKE_TIMEOUT_MS,
+  DEFAULT_HEARTBEAT_INTERVAL_MS,
+  DEFAULT_RECONNECT_GRACE_MS,
+  DEFAULT_STALE_AFTER_MS,
+  type BridgeOptions,
+} from "./bridge/connection.js";
+import {
+  DEFAULT_API_DOCS_URL,
+  DEFAULT_API_DUMP_URL,
+} from "./docs/roblox-docs.js";
+import { LOG_LEVELS, type LogLevel } from "./logger.js";
+import { TOOL_GROUPS, type ToolGroup } from "./tools/index.js";
+import {
+  PolicyFileSchema,
+  type PermissionPolicy,
+} from "./tools/permissions.js";
+
+export const CONFIG_FILE_NAME = "vfx-forge.config.json";
+
+export const DEFAULT_BRIDGE_PORT = 3847;
+
+export interface ServerConfig {
+  bridge: {
+    host: string;
+    port: number;
+    allowedOrigins: string[];
+    handshakeTimeoutMs: number;
+    reconnectGraceMs: number;
+    heartbeatIntervalMs: number;
+    staleAfterMs: number;
+    // Per-method overrides of the request policy timeouts
+    requestTimeouts: Record<string, number>;
+  };
+  http: {
+    enabled: boolean;
+    token: string | null;
+  };
+  docs: {
+    apiDumpUrl: string;
+    apiDocsUrl: string;
+    cacheDir: string;
+  };
+  logLevel: LogLevel;
+  stateDir: string;
+  auditLog: string;
+  promptsDir: string;
+  tools: {
+    // Enabled tool groups (null = all)
+    groups: ToolGroup[] | null;
+  };
+  // Defaults for tool arguments of the same purpose
+  limits: {
+    queryResults: number;
+    transactions: number;
+    auditEntries: number;
+  };
+  // Base permission policy; the policy file and environment override it
+  permissions: Partial<PermissionPolicy>;
+  // Config files that were read, lowest precedence first
+  sources: string[];
+}
+
+const milliseconds = z.number().int().nonnegative();
+
+const ConfigFileSchema = z
+  .object({
+    bridge: z
+      .object({
+        host: z.string().min(1),
+        port: z.number().int().min(0).max(65535),
+        allowedOrigins: z.array(z.string()),
+        handshakeTimeoutMs: milliseconds,
+        reconnectGraceMs: milliseconds,
+        heartbeatIntervalMs: milliseconds.positive(),
+        staleAfterMs: milliseconds.positive(),
+        requestTimeouts: z.record(milliseconds.positive()),
+      })
+      .partial()
+      .strict(),
+    http: z
+      .object({
+        enabled: z.boolean(),
+        token: z.string().min(1).nullable(),
+      })
+      .partial()
+      .strict(),
+    docs: z
+      .object({
+        apiDumpUrl: z.string().url(),
+        apiDocsUrl: z.string().url(),
+        cacheDir: z.string().min(1),
+      })
+      .partial()
+      .strict(),
+    logLevel: z.enum(LOG_LEVELS),
+    stateDir: z.string().min(1),
+    auditLog: z.string().min(1),
+    promptsDir: z.string().min(1),
+    tools: z
+      .object({ groups: z.array(z.enum(TOOL_GROUPS)).nullable() })
+      .partial()
+      .strict(),
+    limits: z
+      .object({
+        queryResults: z.number().int().positive(),
+        transactions: z.number().int().positive(),
+        auditEntries: z.number().int().positive(),
+      })
+      .partial()
+      .strict(),
+    permissions: PolicyFileSchema,
+  })
+  .partial()
+  .strict();
+
+type ConfigLayer = z.infer<typeof ConfigFileSchema>;
+
+// Sections merged key by key rather than replaced
+const SECTIONS = ["bridge", "http", "docs", "tools", "limits", "permissions"];
+
+function parseLayer(source: string, data: unknown): ConfigLayer {
+  const parsed = ConfigFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid configuration in ${source}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+async function readConfigFile(
+  path: string,
+  required: boolean,
+): Promise<ConfigLayer | null> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const layer = parseLayer(path, data);
+
+  // Paths in a file are relative to the file
+  const base = dirname(path);
+  const at = (value: string | undefined) =>
+    value === undefined ? undefined : resolve(base, value);
+  return {
+    ...layer,
+    ...(layer.stateDir && { stateDir: at(layer.stateDir) }),
+    ...(layer.auditLog && { auditLog: at(layer.auditLog) }),
+    ...(layer.promptsDir && { promptsDir: at(layer.promptsDir) }),
+    ...(layer.docs?.cacheDir && {
+      docs: { ...layer.docs, cacheDir: at(layer.docs.cacheDir) },
+    }),
+  };
+}
+
+function list(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function number(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+/**
+ * The settings that environment variables override
+ */
+function environmentLayer(env: Record<string, string | undefined>) {
+  const groups = env.VFX_FORGE_TOOL_GROUPS;
+  const layer = {
+    bridge: {
+      host: env.VFX_FORGE_HOST,
+      port: number(env.VFX_FORGE_PORT),
+      allowedOrigins: list(env.VFX_FORGE_ALLOWED_ORIGINS),
+      reconnectGraceMs: number(env.VFX_FORGE_RECONNECT_GRACE_MS),
+    },
+    http: {
+      enabled:
+        env.VFX_FORGE_HTTP === undefined
+          ? undefined
+          : env.VFX_FORGE_HTTP === "1" || env.VFX_FORGE_HTTP === "true",
+      token: env.VFX_FORGE_HTTP_TOKEN || undefined,
+    },
+    docs: { cacheDir: env.VFX_FORGE_DOCS_CACHE_DIR },
+    logLevel: env.VFX_FORGE_LOG_LEVEL,
+    stateDir: env.VFX_FORGE_STATE_DIR,
+    auditLog: env.VFX_FORGE_AUDIT_LOG,
+    promptsDir: env.VFX_FORGE_PROMPTS_DIR,
+    tools: {
+      groups:
+        groups === undefined || groups === "all" ? undefined : list(groups),
+    },
+  };
+  // Unset variables leave the files' values alone
+  return JSON.parse(JSON.stringify(layer)) as unknown;
+}
+
+function merge(layers: ConfigLayer[]): ConfigLayer {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      merged[key] = SECTIONS.includes(key)
+        ? { ...(merged[key] as object | undefined), ...(value as object) }
+        : value;
+    }
+  }
+  return merged as ConfigLayer;
+}
+
+/**
+ * Fill in defaults. Paths that aren't set live in the state directory.
+ */
+export function resolveConfig(
+  layer: ConfigLayer = {},
+  sources: string[] = [],
+): ServerConfig {
+  const stateDir = layer.stateDir ?? DEFAULT_STATE_DIR;
+  return {
+    bridge: {
+      host: "0.0.0.0",
+      port: DEFAULT_BRIDGE_PORT,
+      allowedOrigins: [],
+      handshakeTimeoutMs: DEFAULT_HANDSHAKE_TIMEOUT_MS,
+      reconnectGraceMs: DEFAULT_RECONNECT_GRACE_MS,
+      heartbeatIntervalMs: DEFAULT_HEARTBEAT_INTERVAL_MS,
+      staleAfterMs: DEFAULT_STALE_AFTER_MS,
+      requestTimeouts: {},
+      ...layer.bridge,
+    },
+    http: { enabled: false, token: null, ...layer.http },
+    docs: {
+      apiDumpUrl: DEFAULT_API_DUMP_URL,
+      apiDocsUrl: DEFAULT_API_DOCS_URL,
+      cacheDir: join(stateDir, "docs"),
+      ...layer.docs,
+    },
+    logLevel: layer.logLevel ?? "info",
+    stateDir,
+    auditLog: layer.auditLog ?? join(stateDir, "audit.jsonl"),
+    promptsDir: layer.promptsDir ?? join(stateDir, "prompts"),
+    tools: { groups: null, ...layer.tools },
+    limits: {
+      queryResults: 100,
+      transactions: 20,
+      auditEntries: 50,
+      ...layer.limits,
+    },
+    permissions: layer.permissions ?? {},
+    sources,
+  };
+}
+
+export const DEFAULT_CONFIG = resolveConfig();
+
+export interface LoadConfigOptions {
+  env?: Record<string, string | undefined>;
+  // Directory searched for the project's config file
+  cwd?: string;
+  // Directory holding the user-global config file (default: the state
+  // directory named by the environment)
+  globalDir?: string;
+}
+
+/**
+ * Load the user-global and project config files and apply environment
+ * overrides. VFX_FORGE_CONFIG names the project file explicitly, in which
+ * case it must exist. Throws with the reason if any layer is invalid.
+ */
+export async function loadServerConfig(
+  options: LoadConfigOptions = {},
+): Promise<ServerConfig> {
+  const env = options.env ?? process.env;
+  const globalPath = join(
+    options.globalDir ?? env.VFX_FORGE_STATE_DIR ?? DEFAULT_STATE_DIR,
+    CONFIG_FILE_NAME,
+  );
+  const projectPath = env.VFX_FORGE_CONFIG
+    ? resolve(options.cwd ?? process.cwd(), env.VFX_FORGE_CONFIG)
+    : join(options.cwd ?? process.cwd(), CONFIG_FILE_NAME);
+
+  const layers: ConfigLayer[] = [];
+  const sources: string[] = [];
+  for (const [path, required] of [
+    [globalPath, false],
+    [projectPath, Boolean(env.VFX_FORGE_CONFIG)],
+  ] as const) {
+    // The project may be the user's state directory
+    if (sources.includes(path)) continue;
+    const layer = await readConfigFile(path, required);
+    if (layer) {
+      layers.push(layer);
+      sources.push(path);
+    }
+  }
+  layers.push(parseLayer("environment", environmentLayer(env)));
+
+  return resolveConfig(merge(layers), sources);
+}
+
+/**
+ * Bridge options for the configured settings
+ */
+export function bridgeOptions(config: ServerConfig): BridgeOptions {
+  const { bridge } = config;
+  return {
+    hostname: bridge.host,
+    allowedOrigins: bridge.allowedOrigins,
+    stateDir: config.stateDir,
+    handshakeTimeoutMs: bridge.handshakeTimeoutMs,
+    reconnectGraceMs: bridge.reconnectGraceMs,
+    heartbeatIntervalMs: bridge.heartbeatIntervalMs,
+    staleAfterMs: bridge.staleAfterMs,
+    requestTimeouts: bridge.requestTimeouts,
+    metricsToken: config.http.token ?? undefined,
+  };
+}
@@ -3,6 +3,8 @@
  * Downloads and caches documentation from the same sources as luau-lsp
  */
 
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
 import type {
   APIDump,
   APIDumpClass,
@@ -25,6 +27,7 @@ import type {
   EnumItemDocumentation,
   GlobalDocumentation,
 } from "../types/roblox-docs.js";
+import { log } from "../logger.js";
 
 // Re-export types for external consumers
 export type {
@@ -42,9 +45,17 @@ export type {
 } from "../types/roblox-docs.js";
 
 // Data source URLs (same as luau-lsp)
-const API_DUMP_URL =
+export const DEFAULT_API_DUMP_URL =
   "https://raw.githubusercontent.com/CloneTrooper1019/Roblox-Client-Tracker/roblox/API-Dump.json";
-const API_DOCS_URL = "https://luau-lsp.pages.dev/api-docs/en-us.json";
+export const DEFAULT_API_DOCS_URL =
+  "https://luau-lsp.pages.dev/api-docs/en-us.json";
+
+export interface DocsSources {
+  apiDumpUrl?: string;
+  apiDocsUrl?: string;
+  // Last downloaded copies are kept here and used when a download fails
+  cacheDir?: string | null;
+}
 
 /**
  * Transform the flat luau-lsp JSON format into our nested APIDocumentation format.
@@ -267,44 +278,78 @@ function parsePropertySecurity(security: APIDumpProperty["Security"]): {
 // Data Loading
 // ============================================
 
+/**
+ * Download a JSON document, saving it to `cacheFile` and falling back to the
+ * saved copy when the download fails
+ */
+async function fetchJson(url: string, cacheFile: string | null) {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    const data: unknown = JSON.parse(text);
+    if (cacheFile) {
+      await mkdir(dirname(cacheFile), { recursive: true })
+        .then(() => writeFile(cacheFile, text))
+        .catch((error) =>
+          log.warn(`[RobloxDocs] Failed to cache ${cacheFile}:`, error),
+        );
+    }
+    return data;
+  } catch (error) {
+    const cached = cacheFile
+      ? await readFile(cacheFile, "utf8").catch(() => null)
+      : null;
+    if (cached === null) throw error;
+    log.warn(
+      `[RobloxDocs] Using cached ${cacheFile} (${error instanceof Error ? error.message : String(error)})`,
+    );
+    return JSON.parse(cached) as unknown;
+  }
+}
+
 /**
  * Load Roblox documentation from remote sources
  */
-export async function loadRobloxDocs(): Promise<RobloxDocsCache> {
-  console.error("[RobloxDocs] Loading API dump...");
+export async function loadRobloxDocs(
+  sources: DocsSources = {},
+): Promise<RobloxDocsCache> {
+  const cacheFile = (name: string) =>
+    sources.cacheDir ? join(sources.cacheDir, name) : null;
+
+  log.info("[RobloxDocs] Loading API dump...");
 
-  const apiDumpResponse = await fetch(API_DUMP_URL);
-  if (!apiDumpResponse.ok) {
+  let apiDump: APIDump;
+  try {
+    apiDump = (await fetchJson(
+      sources.apiDumpUrl ?? DEFAULT_API_DUMP_URL,
+      cacheFile("api-dump.json"),
+    )) as APIDump;
+  } catch (error) {
     throw new Error(
-      `Failed to fetch API dump: ${apiDumpResponse.status} ${apiDumpResponse.statusText}`,
+      `Failed to fetch API dump: ${error instanceof Error ? error.message : String(error)}`,
     );
   }
-  const apiDump = (await apiDumpResponse.json()) as APIDump;
 
-  console.error(
+  log.info(
     `[RobloxDocs] API dump loaded: version ${apiDump.Version}, ${apiDump.Classes.length} classes, ${apiDump.Enums.length} enums`,
   );
 
   let apiDocs: APIDocumentation | null = null;
   try {
-    console.error("[RobloxDocs] Loading API documentation...");
-    const apiDocsResponse = await fetch(API_DOCS_URL);
-    if (apiDocsResponse.ok) {
-      const rawDocs = (await apiDocsResponse.json()) as Record<
-        string,
-        RawAPIDocEntry
-      >;
-      apiDocs = transformRawAPIDocs(rawDocs);
-      console.error(
-        `[RobloxDocs] API documentation loaded: ${Object.keys(apiDocs.classes).length} classes`,
-      );
-    } else {
-      console.error(
-        `[RobloxDocs] API docs unavailable: ${apiDocsResponse.status}`,
-      );
-    }
+    log.info("[RobloxDocs] Loading API documentation...");
+    const rawDocs = (await fetchJson(
+      sources.apiDocsUrl ?? DEFAULT_API_DOCS_URL,
+      cacheFile("api-docs.json"),
+    )) as Record<string, RawAPIDocEntry>;
+    apiDocs = transformRawAPIDocs(rawDocs);
+    log.info(
+      `[RobloxDocs] API documentation loaded: ${Object.keys(apiDocs.classes).length} classes`,
+    );
   } catch (error) {
-    console.error("[RobloxDocs] Failed to load API docs:", error);
+    log.error("[RobloxDocs] Failed to load API docs:", error);
   }
 
   return {
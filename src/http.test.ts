@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { createBridge, type PluginBridge } from "./bridge/connection.js";
+import {
+  createHttpMcpEndpoint,
+  MCP_HTTP_PATH,
+  type HttpMcpEndpoint,
+} from "./http.js";
+import { connectMockPlugin, type MockPlugin } from "./mock/mock-plugin.js";
+import type { DataModelFixture } from "./mock/datamodel.js";
+import fireball from "./mock/fixtures/fireball.json";
+import { createMcpServer } from "./server.js";
+import { createTransactionLog } from "./tools/transactions.js";
+
+let stateDir: string;
+let bridge: PluginBridge;
+let endpoint: HttpMcpEndpoint;
+let plugin: MockPlugin;
+let clients: Client[];
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "0.0.0" },
+  },
+};
+
+function mcpRequest(headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost${MCP_HTTP_PATH}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(INITIALIZE),
+  });
+}
+
+function useEndpoint(token?: string) {
+  const transactions = createTransactionLog();
+  endpoint = createHttpMcpEndpoint(
+    () => createMcpServer(bridge, () => null, { transactions }),
+    { token },
+  );
+  bridge.addHttpRoute(MCP_HTTP_PATH, endpoint.handle);
+}
+
+async function connectHttpClient(): Promise<Client> {
+  const client = new Client({ name: "http-client", version: "0.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(
+      new URL(`http://localhost:${bridge.port}${MCP_HTTP_PATH}`),
+    ),
+  );
+  clients.push(client);
+  return client;
+}
+
+async function call(
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {},
+) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as { type: string; text: string }[];
+  return { isError: result.isError === true, data: JSON.parse(content!.text) };
+}
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  bridge = await createBridge(0, { stateDir, reconnectGraceMs: 0 });
+  plugin = await connectMockPlugin({
+    url: `ws://localhost:${bridge.port}/ws`,
+    pairingCode: bridge.getPairingCode().code,
+    fixture: fireball as DataModelFixture,
+  });
+  clients = [];
+});
+
+afterEach(async () => {
+  await Promise.all(clients.map((client) => client.close()));
+  await endpoint.close();
+  await plugin.close();
+  bridge.shutdown();
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+describe("HTTP transport", () => {
+  test("several clients share one bridge", async () => {
+    useEndpoint();
+    const first = await connectHttpClient();
+    const second = await connectHttpClient();
+    expect(endpoint.sessionCount()).toBe(2);
+
+    const { tools } = await second.listTools();
+    expect(tools.some((tool) => tool.name === "get_children")).toBe(true);
+
+    const created = await call(first, "create_instance", {
+      class_name: "Folder",
+      parent: "Workspace",
+      name: "FromHttp",
+    });
+    expect(created.isError).toBe(false);
+
+    const children = await call(second, "get_children", {
+      path: "Workspace",
+    });
+    expect(
+      children.data.results.some(
+        (child: { name: string }) => child.name === "FromHttp",
+      ),
+    ).toBe(true);
+
+    // Undo history is shared, so the second client can undo the first's change
+    const undone = await call(second, "undo");
+    expect(undone.isError).toBe(false);
+  });
+
+  test("terminating a session removes it", async () => {
+    useEndpoint();
+    const client = await connectHttpClient();
+    expect(endpoint.sessionCount()).toBe(1);
+    await (
+      client.transport as StreamableHTTPClientTransport
+    ).terminateSession();
+    expect(endpoint.sessionCount()).toBe(0);
+  });
+
+  test("rejects remote clients without a token", async () => {
+    useEndpoint();
+    const response = await endpoint.handle(mcpRequest(), "192.168.1.20");
+    expect(response.status).toBe(403);
+    expect(endpoint.sessionCount()).toBe(0);
+  });
+
+  test("requires the bearer token when one is set", async () => {
+    useEndpoint("s3cret");
+    const missing = await endpoint.handle(mcpRequest(), "127.0.0.1");
+    expect(missing.status).toBe(401);
+    const wrong = await endpoint.handle(
+      mcpRequest({ Authorization: "Bearer nope" }),
+      "127.0.0.1",
+    );
+    expect(wrong.status).toBe(401);
+
+    const accepted = await endpoint.handle(
+      mcpRequest({ Authorization: "Bearer s3cret" }),
+      "192.168.1.20",
+    );
+    expect(accepted.status).toBe(200);
+    expect(accepted.headers.get("mcp-session-id")).toBeTruthy();
+    expect(endpoint.sessionCount()).toBe(1);
+  });
+
+  test("reports unknown sessions", async () => {
+    useEndpoint();
+    const response = await endpoint.handle(
+      mcpRequest({ "mcp-session-id": "missing" }),
+      "127.0.0.1",
+    );
+    expect(response.status).toBe(404);
+  });
+});
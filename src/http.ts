@@ -0,0 +1,137 @@
+/**
+ * Streamable HTTP endpoint
+ * Serves MCP over Streamable HTTP from the bridge's own server, so several
+ * clients can share one bridge (and one Studio session) at the same time.
+ * Each MCP session gets its own server instance.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { HttpRouteHandler } from "./bridge/connection.js";
+import { log } from "./logger.js";
+
+export const MCP_HTTP_PATH = "/mcp";
+
+// Where proxies started while this server holds the port send their traffic
+export const MCP_CONTROL_PATH = "/control";
+
+export interface HttpMcpOptions {
+  // Required as a bearer token when set; otherwise only clients on this
+  // machine are served
+  token?: string;
+}
+
+export interface HttpMcpEndpoint {
+  handle: HttpRouteHandler;
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+interface HttpSession {
+  server: McpServer;
+  transport: WebStandardStreamableHTTPServerTransport;
+}
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+// JSON-RPC error body, as the transport itself reports errors
+function errorResponse(status: number, message: string): Response {
+  return Response.json(
+    { jsonrpc: "2.0", error: { code: -32000, message }, id: null },
+    { status },
+  );
+}
+
+function tokenMatches(header: string | null, token: string): boolean {
+  const given = Buffer.from(header?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Check a request against the HTTP access rules: the bearer token when one is
+ * set, otherwise a local client address. Returns why it was refused, or null.
+ */
+export function checkHttpAccess(
+  req: Request,
+  clientAddress: string | null,
+  token: string | undefined,
+): { status: number; message: string } | null {
+  if (token) {
+    return tokenMatches(req.headers.get("Authorization"), token)
+      ? null
+      : { status: 401, message: "Missing or invalid bearer token" };
+  }
+  if (!clientAddress || !LOOPBACK.has(clientAddress)) {
+    return {
+      status: 403,
+      message: "Only local clients may connect without VFX_FORGE_HTTP_TOKEN",
+    };
+  }
+  return null;
+}
+
+/**
+ * Create the handler for the /mcp route. `createServer` builds a server for
+ * each new MCP session.
+ */
+export function createHttpMcpEndpoint(
+  createServer: () => McpServer,
+  options: HttpMcpOptions = {},
+): HttpMcpEndpoint {
+  const sessions = new Map<string, HttpSession>();
+
+  async function startSession(req: Request): Promise<Response> {
+    const server = createServer();
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server, transport });
+        log.debug(`[HTTP] MCP session started (${sessionId})`);
+      },
+      onsessionclosed: (sessionId) => {
+        sessions.delete(sessionId);
+        log.debug(`[HTTP] MCP session ended (${sessionId})`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    const response = await transport.handleRequest(req);
+    // Anything but an initialize request was refused; nothing to keep
+    if (!transport.sessionId) {
+      await server.close();
+    }
+    return response;
+  }
+
+  return {
+    async handle(req, clientAddress) {
+      const denied = checkHttpAccess(req, clientAddress, options.token);
+      if (denied) {
+        return errorResponse(denied.status, denied.message);
+      }
+
+      const sessionId = req.headers.get("mcp-session-id");
+      if (!sessionId) {
+        return startSession(req);
+      }
+      const session = sessions.get(sessionId);
+      if (!session) {
+        return errorResponse(404, "Session not found");
+      }
+      return session.transport.handleRequest(req);
+    },
+
+    sessionCount: () => sessions.size,
+
+    async close() {
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.all(open.map(({ server }) => server.close()));
+    },
+  };
+}
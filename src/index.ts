@@ -3,161 +3,208 @@
  * Uses Bun runtime with native WebSocket support
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
+import { loadControlToken } from "./bridge/auth.js";
 import { createBridge, type PluginBridge } from "./bridge/connection.js";
+import { createReplayBridge } from "./bridge/replay.js";
 import {
-  registerTools,
-  handleToolCall,
-  isPluginTool,
-  type ServerContext,
-} from "./tools/index.js";
+  bridgeOptions,
+  loadServerConfig,
+  type ServerConfig,
+} from "./config.js";
 import { loadRobloxDocs, type RobloxDocsCache } from "./docs/roblox-docs.js";
+import {
+  createHttpMcpEndpoint,
+  MCP_CONTROL_PATH,
+  MCP_HTTP_PATH,
+} from "./http.js";
+import { createPromptLibrary } from "./prompts/templates.js";
+import { detectDaemon, startProxy, type DaemonInfo } from "./proxy.js";
+import { createToolGateway, TOOLS_HTTP_PATH } from "./rest.js";
+import { createMcpServer, SERVER_NAME, SERVER_VERSION } from "./server.js";
+import { createAuditLog } from "./tools/audit-log.js";
+import { getToolsOutsideGroups } from "./tools/index.js";
+import {
+  loadPermissionPolicy,
+  type PermissionPolicy,
+} from "./tools/permissions.js";
+import { createTransactionLog } from "./tools/transactions.js";
+import { log, setLogLevel } from "./logger.js";
 
-const SERVER_NAME = "vfx-forge-mcp";
-const SERVER_VERSION = "0.1.0";
-const DEFAULT_BRIDGE_PORT = 3847;
+/**
+ * Serve this process's client by forwarding to the server that already owns
+ * the bridge port
+ */
+async function attachToDaemon(daemon: DaemonInfo, config: ServerConfig) {
+  log.info(
+    `[${SERVER_NAME}] Another server owns the bridge port; forwarding to ${daemon.url}`,
+  );
+  const proxy = await startProxy(new StdioServerTransport(), {
+    url: `${daemon.url}${MCP_CONTROL_PATH}`,
+    token: await loadControlToken(config.stateDir),
+  });
+  log.info(`[${SERVER_NAME}] Proxy connected and ready`);
+
+  const shutdown = async () => {
+    await proxy.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
 
 async function main() {
-  const bridgePort = parseInt(
-    process.env.VFX_FORGE_PORT ?? String(DEFAULT_BRIDGE_PORT),
-    10,
-  );
+  let config: ServerConfig;
+  try {
+    config = await loadServerConfig();
+  } catch (error) {
+    log.error(
+      `[${SERVER_NAME}] ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+  }
+  setLogLevel(config.logLevel);
+  const bridgePort = config.bridge.port;
 
-  console.error(`[${SERVER_NAME}] Starting MCP server v${SERVER_VERSION}`);
-  console.error(
-    `[${SERVER_NAME}] Plugin bridge will listen on ws://localhost:${bridgePort}`,
-  );
+  log.info(`[${SERVER_NAME}] Starting MCP server v${SERVER_VERSION}`);
+  for (const source of config.sources) {
+    log.info(`[${SERVER_NAME}] Loaded configuration from ${source}`);
+  }
 
-  // Initialize MCP server
-  const mcpServer = new McpServer(
-    {
-      name: SERVER_NAME,
-      version: SERVER_VERSION,
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    },
-  );
+  let permissions: PermissionPolicy;
+  try {
+    permissions = await loadPermissionPolicy(process.env, config.permissions);
+  } catch (error) {
+    log.error(`[${SERVER_NAME}] Failed to load permission policy:`, error);
+    process.exit(1);
+  }
+  // Tools in disabled groups are hidden like denied ones
+  const disabledTools = getToolsOutsideGroups(config.tools.groups);
+  if (disabledTools.length > 0) {
+    permissions = {
+      ...permissions,
+      denyTools: [...permissions.denyTools, ...disabledTools],
+    };
+  }
+  if (permissions.readOnly) {
+    log.info(`[${SERVER_NAME}] Read-only mode: place changes are refused`);
+  }
 
-  // Start WebSocket bridge for plugin communication
+  const replayPath = process.env.VFX_FORGE_REPLAY;
+
+  // Start WebSocket bridge for plugin communication, or answer plugin tool
+  // calls from a recording
   let bridge: PluginBridge;
   try {
-    bridge = await createBridge(bridgePort);
-    console.error(
-      `[${SERVER_NAME}] Plugin bridge started on ws://localhost:${bridgePort}`,
-    );
+    if (replayPath) {
+      bridge = await createReplayBridge(replayPath, {
+        preserveTiming: process.env.VFX_FORGE_REPLAY_TIMING === "1",
+        looseMatching: process.env.VFX_FORGE_REPLAY_LOOSE === "1",
+      });
+      log.info(`[${SERVER_NAME}] Replaying plugin traffic from ${replayPath}`);
+    } else {
+      log.info(
+        `[${SERVER_NAME}] Plugin bridge will listen on ws://localhost:${bridgePort}`,
+      );
+      bridge = await createBridge(bridgePort, {
+        ...bridgeOptions(config),
+        recordPath: process.env.VFX_FORGE_RECORD,
+      });
+      log.info(
+        `[${SERVER_NAME}] Plugin bridge started on ws://localhost:${bridgePort}`,
+      );
+    }
   } catch (error) {
-    console.error(`[${SERVER_NAME}] Failed to start plugin bridge:`, error);
+    // The port may belong to another copy of this server; share it if so
+    const daemon = replayPath ? null : await detectDaemon(bridgePort);
+    if (daemon) {
+      await attachToDaemon(daemon, config);
+      return;
+    }
+    log.error(`[${SERVER_NAME}] Failed to start plugin bridge:`, error);
     process.exit(1);
   }
 
   // Load Roblox documentation (async, non-blocking)
   let docs: RobloxDocsCache | null = null;
-  loadRobloxDocs()
+  loadRobloxDocs(config.docs)
     .then((loadedDocs) => {
       docs = loadedDocs;
-      console.error(
+      log.info(
         `[${SERVER_NAME}] Roblox documentation loaded (version: ${docs.version})`,
       );
     })
     .catch((error) => {
-      console.error(
-        `[${SERVER_NAME}] Failed to load Roblox documentation:`,
-        error,
-      );
-      console.error(`[${SERVER_NAME}] Documentation tools will be unavailable`);
+      log.error(`[${SERVER_NAME}] Failed to load Roblox documentation:`, error);
+      log.warn(`[${SERVER_NAME}] Documentation tools will be unavailable`);
     });
 
-  // Register tools and get definitions
-  const toolDefinitions = registerTools();
-
-  // Handle tool listing
-  mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: toolDefinitions };
-  });
-
-  // Handle tool calls
-  mcpServer.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    if (isPluginTool(name) && !bridge.isConnected()) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                success: false,
-                error: {
-                  code: "CONNECTION_LOST",
-                  message:
-                    "VFX Forge plugin is not connected. Please ensure the plugin is running in Roblox Studio.",
-                },
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
+  // Log every change agents make to the place
+  const auditLog = createAuditLog(config.auditLog);
+  log.info(`[${SERVER_NAME}] Audit log: ${auditLog.path}`);
+
+  // Serve the team's prompt templates
+  const prompts = createPromptLibrary(config.promptsDir);
+  log.info(`[${SERVER_NAME}] Prompt templates: ${prompts.dir}`);
+
+  // Every client shares one undo history, since they edit the same places
+  const transactions = createTransactionLog();
+  const createServer = () =>
+    createMcpServer(bridge, () => docs, {
+      permissions,
+      auditLog,
+      prompts,
+      transactions,
+      config,
+    });
 
-    try {
-      const context: ServerContext = { bridge, docs };
-      const result = await handleToolCall(context, name, args ?? {});
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                success: false,
-                error: {
-                  code: "OPERATION_FAILED",
-                  message: errorMessage,
-                },
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
-  });
+  // Initialize MCP server
+  const mcpServer = createServer();
 
   // Connect to stdio transport
   const transport = new StdioServerTransport();
   await mcpServer.connect(transport);
 
-  console.error(`[${SERVER_NAME}] MCP server connected and ready`);
+  log.info(`[${SERVER_NAME}] MCP server connected and ready`);
+
+  // Servers started while this one holds the port proxy their clients here
+  const controlEndpoint = replayPath
+    ? null
+    : createHttpMcpEndpoint(createServer, {
+        token: await loadControlToken(config.stateDir),
+      });
+  if (controlEndpoint) {
+    bridge.addHttpRoute(MCP_CONTROL_PATH, controlEndpoint.handle);
+  }
+
+  // Let other clients share this bridge over Streamable HTTP, and scripts
+  // call tools over plain HTTP
+  const httpToken = config.http.token ?? undefined;
+  const httpEndpoint =
+    config.http.enabled && !replayPath
+      ? createHttpMcpEndpoint(createServer, { token: httpToken })
+      : null;
+  if (httpEndpoint) {
+    bridge.addHttpRoute(MCP_HTTP_PATH, httpEndpoint.handle);
+    bridge.addHttpRoute(
+      TOOLS_HTTP_PATH,
+      createToolGateway(
+        () => ({ bridge, docs, permissions, transactions, auditLog, config }),
+        { token: httpToken },
+      ),
+    );
+    log.info(
+      `[${SERVER_NAME}] MCP over HTTP at http://localhost:${bridge.port}${MCP_HTTP_PATH}, tools at http://localhost:${bridge.port}${TOOLS_HTTP_PATH}`,
+    );
+  }
 
   // Handle graceful shutdown
   const shutdown = async () => {
-    console.error(`[${SERVER_NAME}] Shutting down...`);
+    log.info(`[${SERVER_NAME}] Shutting down...`);
+    await httpEndpoint?.close();
+    await controlEndpoint?.close();
     bridge.shutdown();
+    auditLog.close();
     await mcpServer.close();
     process.exit(0);
   };
@@ -167,11 +214,11 @@ async function main() {
 
   // Subscribe to plugin events
   bridge.onEvent((event) => {
-    console.error(`[${SERVER_NAME}] Plugin event:`, event.type);
+    log.debug(`[${SERVER_NAME}] Plugin event:`, event.type);
   });
 }
 
 main().catch((error) => {
-  console.error("Fatal error:", error);
+  log.error("Fatal error:", error);
   process.exit(1);
 });
@@ -0,0 +1,34 @@
+/**
+ * Logging
+ * Everything is written to stderr, since stdout carries the MCP stdio
+ * transport. Messages below the configured level are dropped, except those
+ * written with log.always.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+let threshold = LOG_LEVELS.indexOf("info");
+
+export function setLogLevel(level: LogLevel): void {
+  threshold = LOG_LEVELS.indexOf(level);
+}
+
+function writer(level: Exclude<LogLevel, "silent">) {
+  const rank = LOG_LEVELS.indexOf(level);
+  return (...args: unknown[]) => {
+    if (rank >= threshold) {
+      console.error(...args);
+    }
+  };
+}
+
+export const log = {
+  debug: writer("debug"),
+  info: writer("info"),
+  warn: writer("warn"),
+  error: writer("error"),
+  // For what the user has to act on (the pairing code), whatever the level
+  always: (...args: unknown[]) => console.error(...args),
+};
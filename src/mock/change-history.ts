@@ -0,0 +1,145 @@
+/**
+ * Mock ChangeHistoryService
+ * Groups mutating requests into waypoints by transaction id and implements the
+ * transaction and undo/redo bridge methods by snapshotting the mock DataModel.
+ */
+
+import type { OperationResult } from "../types/messages.js";
+import {
+  MockMethodError,
+  type DataModelSnapshot,
+  type MockDataModel,
+} from "./datamodel.js";
+
+interface Waypoint {
+  id: string;
+  before: DataModelSnapshot;
+  after: DataModelSnapshot | null;
+  // Requests recorded under this waypoint
+  changes: number;
+}
+
+export interface MockChangeHistory {
+  // Bridge methods this history implements
+  methodNames: string[];
+  call: (method: string, params: Record<string, unknown>) => OperationResult;
+  // Run a request under its transaction id. Ids not opened with
+  // begin_transaction become a waypoint of their own.
+  record: <T>(transactionId: string | undefined, run: () => T) => T;
+}
+
+export function createMockChangeHistory(
+  dataModel: MockDataModel,
+): MockChangeHistory {
+  const open = new Map<string, Waypoint>();
+  const undoStack: Waypoint[] = [];
+  let redoStack: Waypoint[] = [];
+
+  function requireOpen(params: Record<string, unknown>): Waypoint {
+    const id = params.transaction_id as string;
+    const waypoint = open.get(id);
+    if (!waypoint) {
+      throw new MockMethodError("NOT_FOUND", `Transaction not open: ${id}`);
+    }
+    open.delete(id);
+    return waypoint;
+  }
+
+  function push(waypoint: Waypoint) {
+    undoStack.push(waypoint);
+    redoStack = [];
+  }
+
+  // Studio can only step through waypoints in order; anything else means the
+  // history changed behind the server's back
+  function requireTop(stack: Waypoint[], params: Record<string, unknown>) {
+    const top = stack.at(-1);
+    if (!top || top.id !== params.transaction_id) {
+      throw new MockMethodError(
+        "HISTORY_CONFLICT",
+        `Transaction ${String(params.transaction_id)} is not the latest waypoint`,
+      );
+    }
+    return top;
+  }
+
+  const methods: Record<
+    string,
+    (params: Record<string, unknown>) => OperationResult
+  > = {
+    begin_transaction: (params) => {
+      const id = params.transaction_id as string;
+      if (open.has(id)) {
+        throw new MockMethodError(
+          "ALREADY_EXISTS",
+          `Transaction already open: ${id}`,
+        );
+      }
+      open.set(id, {
+        id,
+        before: dataModel.snapshot(),
+        after: null,
+        changes: 0,
+      });
+      return { success: true };
+    },
+
+    commit_transaction: (params) => {
+      const waypoint = requireOpen(params);
+      waypoint.after = dataModel.snapshot();
+      if (waypoint.changes > 0) push(waypoint);
+      return { success: true, affected_count: waypoint.changes };
+    },
+
+    rollback_transaction: (params) => {
+      const waypoint = requireOpen(params);
+      dataModel.restore(waypoint.before);
+      return { success: true, affected_count: waypoint.changes };
+    },
+
+    undo: (params) => {
+      const waypoint = requireTop(undoStack, params);
+      undoStack.pop();
+      dataModel.restore(waypoint.before);
+      redoStack.push(waypoint);
+      return { success: true, affected_count: waypoint.changes };
+    },
+
+    redo: (params) => {
+      const waypoint = requireTop(redoStack, params);
+      redoStack.pop();
+      dataModel.restore(waypoint.after!);
+      undoStack.push(waypoint);
+      return { success: true, affected_count: waypoint.changes };
+    },
+  };
+
+  return {
+    methodNames: Object.keys(methods),
+
+    call(method, params) {
+      return methods[method]!(params);
+    },
+
+    record(transactionId, run) {
+      if (!transactionId) return run();
+
+      const waypoint = open.get(transactionId);
+      if (waypoint) {
+        const result = run();
+        waypoint.changes++;
+        return result;
+      }
+
+      const before = dataModel.snapshot();
+      const result = run();
+      push({
+        id: transactionId,
+        before,
+        after: dataModel.snapshot(),
+        changes: 1,
+      });
+      return result;
+    },
+  };
+}
@@ -0,0 +1,676 @@
+/**
+ * In-memory DataModel for the mock plugin
+ * Implements the bridge methods against a simulated instance tree so tools can
+ * be exercised without Roblox Studio.
+ */
+
+import type {
+  AttributeInfo,
+  AttributesResult,
+  ErrorInfo,
+  ExistsResult,
+  InstanceRef,
+  NumberSequenceValue,
+  OperationResult,
+  PropertyResult,
+  QueryResult,
+  SelectionResult,
+  SerializedValue,
+  Vector3Value,
+} from "../types/messages.js";
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_COLLISION_GROUP = "Default";
+
+/**
+ * Instance shape used by JSON fixtures
+ */
+export interface InstanceFixture {
+  name: string;
+  className: string;
+  properties?: Record<string, SerializedValue>;
+  attributes?: Record<string, SerializedValue>;
+  tags?: string[];
+  children?: InstanceFixture[];
+}
+
+export interface DataModelFixture {
+  services: InstanceFixture[];
+  collisionGroups?: string[];
+  selection?: string[];
+}
+
+interface MockInstance {
+  name: string;
+  className: string;
+  parent: MockInstance | null;
+  properties: Map<string, SerializedValue>;
+  attributes: Map<string, SerializedValue>;
+  tags: Set<string>;
+  children: MockInstance[];
+}
+
+export class MockMethodError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "MockMethodError";
+    this.code = code;
+  }
+
+  toErrorInfo(): ErrorInfo {
+    return { code: this.code, message: this.message };
+  }
+}
+
+type MethodHandler = (params: Record<string, unknown>) => unknown;
+
+function fromFixture(
+  fixture: InstanceFixture,
+  parent: MockInstance | null,
+): MockInstance {
+  const instance: MockInstance = {
+    name: fixture.name,
+    className: fixture.className,
+    parent,
+    properties: new Map(
+      Object.entries(structuredClone(fixture.properties ?? {})),
+    ),
+    attributes: new Map(
+      Object.entries(structuredClone(fixture.attributes ?? {})),
+    ),
+    tags: new Set(fixture.tags ?? []),
+    children: [],
+  };
+  instance.children = (fixture.children ?? []).map((child) =>
+    fromFixture(child, instance),
+  );
+  return instance;
+}
+
+function cloneInstance(
+  source: MockInstance,
+  parent: MockInstance | null,
+): MockInstance {
+  const clone: MockInstance = {
+    name: source.name,
+    className: source.className,
+    parent,
+    properties: new Map(structuredClone([...source.properties])),
+    attributes: new Map(structuredClone([...source.attributes])),
+    tags: new Set(source.tags),
+    children: [],
+  };
+  clone.children = source.children.map((child) => cloneInstance(child, clone));
+  return clone;
+}
+
+function pathOf(instance: MockInstance): string {
+  const parts: string[] = [];
+  for (let node: MockInstance | null = instance; node; node = node.parent) {
+    parts.unshift(node.name);
+  }
+  return parts.join(".");
+}
+
+function refOf(instance: MockInstance): InstanceRef {
+  return {
+    path: pathOf(instance),
+    class: instance.className,
+    name: instance.name,
+  };
+}
+
+function descendantsOf(instance: MockInstance): MockInstance[] {
+  const result: MockInstance[] = [];
+  for (const child of instance.children) {
+    result.push(child, ...descendantsOf(child));
+  }
+  return result;
+}
+
+function typeOf(value: SerializedValue): string {
+  if (value === null) return "nil";
+  if (typeof value === "object" && "_type" in value) {
+    return String(value._type);
+  }
+  return typeof value;
+}
+
+function scaleValue(value: SerializedValue, factor: number): SerializedValue {
+  if (typeof value !== "object" || value === null || !("_type" in value)) {
+    return value;
+  }
+  if (value._type === "Vector3") {
+    const v = value as Vector3Value;
+    return { ...v, x: v.x * factor, y: v.y * factor, z: v.z * factor };
+  }
+  if (value._type === "NumberSequence") {
+    const seq = value as NumberSequenceValue;
+    return {
+      ...seq,
+      keypoints: seq.keypoints.map((k) => ({ ...k, value: k.value * factor })),
+    };
+  }
+  return value;
+}
+
+interface SelectorStep {
+  // ">" direct children, ">>" or leading step descendants
+  combinator: ">" | ">>";
+  // Matches either the class name or the instance name ("*" matches all)
+  identifier: string | null;
+  attributes: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Parse selectors like `ParticleEmitter`, `>Core`, `Fireball>>ParticleEmitter`
+ * or `ParticleEmitter[Element=Fire]`
+ */
+function parseSelector(selector: string): SelectorStep[] {
+  const steps: SelectorStep[] = [];
+  const pattern = /\s*(>>|>)?\s*([A-Za-z0-9_*]+)?((?:\[[^\]]+\])*)/y;
+  const source = selector.trim();
+  let index = 0;
+
+  while (index < source.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match || (!match[2] && !match[3])) {
+      throw new MockMethodError(
+        "INVALID_SELECTOR",
+        `Invalid selector: ${selector}`,
+      );
+    }
+    index = pattern.lastIndex;
+
+    const attributes = [
+      ...(match[3] ?? "").matchAll(/\[([^=\]]+)=([^\]]*)\]/g),
+    ].map((m) => ({ name: m[1]!.trim(), value: m[2]!.trim() }));
+    steps.push({
+      combinator: (match[1] as ">" | ">>" | undefined) ?? ">>",
+      identifier: match[2] ?? null,
+      attributes,
+    });
+  }
+
+  return steps;
+}
+
+function matchesStep(instance: MockInstance, step: SelectorStep): boolean {
+  if (
+    step.identifier &&
+    step.identifier !== "*" &&
+    instance.className !== step.identifier &&
+    instance.name !== step.identifier
+  ) {
+    return false;
+  }
+  return step.attributes.every(({ name, value }) => {
+    const actual = instance.attributes.get(name);
+    return actual !== undefined && String(actual) === value;
+  });
+}
+
+export interface MockDataModel {
+  // Bridge methods this DataModel implements
+  methodNames: string[];
+  // Execute a bridge method, throwing MockMethodError on failure
+  call: (method: string, params: Record<string, unknown>) => unknown;
+  // Find an instance by dot-separated path
+  exists: (path: string) => boolean;
+  // Capture and restore the whole DataModel, for the mock change history
+  snapshot: () => DataModelSnapshot;
+  restore: (snapshot: DataModelSnapshot) => void;
+}
+
+export interface DataModelSnapshot {
+  services: MockInstance[];
+  collisionGroups: Map<string, Set<string>>;
+  selection: string[];
+}
+
+export function createMockDataModel(fixture: DataModelFixture): MockDataModel {
+  const services = fixture.services.map((service) =>
+    fromFixture(service, null),
+  );
+  const collisionGroups = new Map<string, Set<string>>();
+  for (const group of [
+    DEFAULT_COLLISION_GROUP,
+    ...(fixture.collisionGroups ?? []),
+  ]) {
+    collisionGroups.set(group, new Set());
+  }
+  let selection = fixture.selection ?? [];
+
+  const methods: Record<string, MethodHandler> = {
+    query_descendants: (params) => {
+      const root = resolve((params.root as string) ?? "Workspace");
+      let current = [root];
+      for (const step of parseSelector(params.selector as string)) {
+        const next = new Set<MockInstance>();
+        for (const node of current) {
+          const candidates =
+            step.combinator === ">" ? node.children : descendantsOf(node);
+          for (const candidate of candidates) {
+            if (matchesStep(candidate, step)) next.add(candidate);
+          }
+        }
+        current = [...next];
+      }
+      return limited(current, params.limit as number | undefined);
+    },
+
+    get_children: (params) => {
+      const filter = params.class_filter as string | undefined;
+      const children = resolve(params.path as string).children.filter(
+        (child) => !filter || child.className === filter,
+      );
+      return limited(children, children.length);
+    },
+
+    instance_exists: (params): ExistsResult => ({
+      exists: find(params.path as string) !== null,
+    }),
+
+    get_properties: (params): PropertyResult => {
+      const instance = resolve(params.path as string);
+      const names = params.properties as string[] | undefined;
+      const properties: Record<string, SerializedValue> = {
+        Name: instance.name,
+        ClassName: instance.className,
+        ...Object.fromEntries(instance.properties),
+      };
+      if (!names) return { properties };
+      return {
+        properties: Object.fromEntries(
+          names.map((name) => {
+            if (!(name in properties)) {
+              throw new MockMethodError(
+                "PROPERTY_NOT_FOUND",
+                `${name} is not a valid member of ${instance.className} "${pathOf(instance)}"`,
+              );
+            }
+            return [name, properties[name]!];
+          }),
+        ),
+      };
+    },
+
+    set_property: (params): OperationResult => {
+      const instance = resolve(params.path as string);
+      setProperty(
+        instance,
+        params.property as string,
+        params.value as SerializedValue,
+      );
+      return { success: true, path: pathOf(instance), affected_count: 1 };
+    },
+
+    get_attributes: (params): AttributesResult => {
+      const instance = resolve(params.path as string);
+      const attributes: Record<string, AttributeInfo> = {};
+      for (const [name, value] of instance.attributes) {
+        attributes[name] = { value, type: typeOf(value) };
+      }
+      return { attributes };
+    },
+
+    set_attribute: (params): OperationResult => {
+      const instance = resolve(params.path as string);
+      instance.attributes.set(
+        params.attribute as string,
+        params.value as SerializedValue,
+      );
+      return { success: true, path: pathOf(instance), affected_count: 1 };
+    },
+
+    delete_attribute: (params): OperationResult => {
+      const instance = resolve(params.path as string);
+      instance.attributes.delete(params.attribute as string);
+      return { success: true, path: pathOf(instance), affected_count: 1 };
+    },
+
+    get_tags: (params) => ({
+      tags: [...resolve(params.path as string).tags],
+    }),
+
+    add_tag: (params): OperationResult => {
+      const instance = resolve(params.path as string);
+      instance.tags.add(params.tag as string);
+      return { success: true, path: pathOf(instance), affected_count: 1 };
+    },
+
+    remove_tag: (params): OperationResult => {
+      const instance = resolve(params.path as string);
+      instance.tags.delete(params.tag as string);
+      return { success: true, path: pathOf(instance), affected_count: 1 };
+    },
+
+    get_tagged_instances: (params) => {
+      const roots = params.root ? [resolve(params.root as string)] : services;
+      const tagged = roots
+        .flatMap((root) => [root, ...descendantsOf(root)])
+        .filter((instance) => instance.tags.has(params.tag as string));
+      return limited(tagged, params.limit as number | undefined);
+    },
+
+    get_selection: (): SelectionResult => ({
+      selection: selection.filter((path) => find(path) !== null),
+    }),
+
+    set_selection: (params): OperationResult => {
+      const paths = params.paths as string[];
+      paths.forEach((path) => resolve(path));
+      selection = [...paths];
+      return { success: true, affected_count: paths.length };
+    },
+
+    create_collision_group: (params): OperationResult => {
+      const name = params.name as string;
+      if (collisionGroups.has(name)) {
+        throw new MockMethodError(
+          "ALREADY_EXISTS",
+          `Collision group already exists: ${name}`,
+        );
+      }
+      collisionGroups.set(name, new Set());
+      return { success: true };
+    },
+
+    delete_collision_group: (params): OperationResult => {
+      const name = params.name as string;
+      requireGroup(name);
+      collisionGroups.delete(name);
+      for (const nonCollidable of collisionGroups.values()) {
+        nonCollidable.delete(name);
+      }
+      return { success: true };
+    },
+
+    set_collision_group_collidable: (params): OperationResult => {
+      const group1 = params.group1 as string;
+      const group2 = params.group2 as string;
+      const a = requireGroup(group1);
+      const b = requireGroup(group2);
+      if (params.collidable) {
+        a.delete(group2);
+        b.delete(group1);
+      } else {
+        a.add(group2);
+        b.add(group1);
+      }
+      return { success: true };
+    },
+
+    get_collision_group_collidable: (params) => ({
+      collidable: !requireGroup(params.group1 as string).has(
+        params.group2 as string,
+      ),
+    }),
+
+    set_part_collision_group: (params): OperationResult => {
+      const group = params.group as string;
+      requireGroup(group);
+      const parts = (params.paths as string[]).map((path) => resolve(path));
+      for (const part of parts) {
+        part.properties.set("CollisionGroup", group);
+      }
+      return { success: true, affected_count: parts.length };
+    },
+
+    create_instance: (params): OperationResult => {
+      const instance = create(params);
+      return {
+        success: true,
+        path: pathOf(instance),
+        class: instance.className,
+      };
+    },
+
+    clone_instance: (params): OperationResult => {
+      const source = resolve(params.source as string);
+      const parent = params.parent
+        ? resolve(params.parent as string)
+        : source.parent;
+      if (!parent) {
+        throw new MockMethodError(
+          "INVALID_OPERATION",
+          "Cannot clone a service",
+        );
+      }
+      const clone = cloneInstance(source, parent);
+      if (params.name) clone.name = params.name as string;
+      parent.children.push(clone);
+      return { success: true, path: pathOf(clone), class: clone.className };
+    },
+
+    bulk_clone_instances: (params) => {
+      const suffix = (params.name_suffix as string) ?? "";
+      const results = (params.sources as string[]).map((path) =>
+        methods.clone_instance!({
+          source: path,
+          parent: params.parent,
+          name: `${resolve(path).name}${suffix}`,
+        }),
+      ) as OperationResult[];
+      return { success: true, affected_count: results.length, results };
+    },
+
+    delete_instance: (params): OperationResult => {
+      remove(resolve(params.path as string));
+      return { success: true, affected_count: 1 };
+    },
+
+    delete_instances: (params): OperationResult => {
+      const instances = (params.paths as string[]).map((path) => resolve(path));
+      instances.forEach((instance) => remove(instance));
+      return { success: true, affected_count: instances.length };
+    },
+
+    bulk_scale: (params): OperationResult => {
+      const factor = params.factor as number;
+      const instances = (params.paths as string[]).map((path) => resolve(path));
+      for (const instance of [
+        ...instances,
+        ...instances.flatMap(descendantsOf),
+      ]) {
+        for (const name of ["Size", "Position"]) {
+          const value = instance.properties.get(name);
+          if (value !== undefined) {
+            instance.properties.set(name, scaleValue(value, factor));
+          }
+        }
+      }
+      return { success: true, affected_count: instances.length };
+    },
+
+    bulk_pivot_to: (params): OperationResult => {
+      const operations = params.operations as Array<{
+        path: string;
+        cframe: SerializedValue;
+      }>;
+      for (const { path, cframe } of operations) {
+        resolve(path).properties.set("WorldPivot", cframe);
+      }
+      return { success: true, affected_count: operations.length };
+    },
+
+    bulk_delete: (params) => methods.delete_instances!(params),
+
+    bulk_set_attribute: (params): OperationResult => {
+      const instances = (params.paths as string[]).map((path) => resolve(path));
+      for (const instance of instances) {
+        instance.attributes.set(
+          params.attribute as string,
+          params.value as SerializedValue,
+        );
+      }
+      return { success: true, affected_count: instances.length };
+    },
+
+    bulk_set_property: (params): OperationResult => {
+      const instances = (params.paths as string[]).map((path) => resolve(path));
+      for (const instance of instances) {
+        setProperty(
+          instance,
+          params.property as string,
+          params.value as SerializedValue,
+        );
+      }
+      return { success: true, affected_count: instances.length };
+    },
+
+    bulk_create_instances: (params) => {
+      const definitions = params.instances as Array<Record<string, unknown>>;
+      const results = definitions.map((definition) => {
+        const instance = create(definition);
+        return { path: pathOf(instance), class: instance.className };
+      });
+      return { success: true, affected_count: results.length, results };
+    },
+  };
+
+  function find(path: string): MockInstance | null {
+    const [serviceName, ...rest] = path.split(".");
+    let current =
+      services.find((service) => service.name === serviceName) ?? null;
+    for (const name of rest) {
+      if (!current) return null;
+      current = current.children.find((child) => child.name === name) ?? null;
+    }
+    return current;
+  }
+
+  function resolve(path: string): MockInstance {
+    const instance = find(path);
+    if (!instance) {
+      throw new MockMethodError("NOT_FOUND", `Instance not found: ${path}`);
+    }
+    return instance;
+  }
+
+  function limited(
+    instances: MockInstance[],
+    limit = DEFAULT_LIMIT,
+  ): QueryResult {
+    return {
+      results: instances.slice(0, limit).map(refOf),
+      total: instances.length,
+      limited: instances.length > limit,
+    };
+  }
+
+  function requireGroup(name: string): Set<string> {
+    const group = collisionGroups.get(name);
+    if (!group) {
+      throw new MockMethodError(
+        "NOT_FOUND",
+        `Collision group not found: ${name}`,
+      );
+    }
+    return group;
+  }
+
+  function setProperty(
+    instance: MockInstance,
+    property: string,
+    value: SerializedValue,
+  ) {
+    if (property === "ClassName") {
+      throw new MockMethodError(
+        "READ_ONLY",
+        "ClassName is a read-only property",
+      );
+    }
+    if (property === "Name") {
+      instance.name = String(value);
+    } else if (property === "Parent") {
+      const target = resolve(String(value));
+      remove(instance);
+      instance.parent = target;
+      target.children.push(instance);
+    } else {
+      instance.properties.set(property, value);
+    }
+  }
+
+  function create(params: Record<string, unknown>): MockInstance {
+    const parent = resolve(params.parent as string);
+    const className = params.class_name as string;
+    const instance: MockInstance = {
+      name: (params.name as string) ?? className,
+      className,
+      parent,
+      properties: new Map(
+        Object.entries(
+          (params.properties as Record<string, SerializedValue>) ?? {},
+        ),
+      ),
+      attributes: new Map(
+        Object.entries(
+          (params.attributes as Record<string, SerializedValue>) ?? {},
+        ),
+      ),
+      tags: new Set(),
+      children: [],
+    };
+    parent.children.push(instance);
+    return instance;
+  }
+
+  function remove(instance: MockInstance) {
+    if (!instance.parent) {
+      throw new MockMethodError(
+        "INVALID_OPERATION",
+        `Cannot delete service: ${instance.name}`,
+      );
+    }
+    const siblings = instance.parent.children;
+    siblings.splice(siblings.indexOf(instance), 1);
+  }
+
+  function call(method: string, params: Record<string, unknown>): unknown {
+    const handler = methods[method];
+    if (!handler) {
+      throw new MockMethodError("UNKNOWN_METHOD", `Unknown method: ${method}`);
+    }
+    return handler(params);
+  }
+
+  function copyGroups(groups: Map<string, Set<string>>) {
+    return new Map(
+      [...groups].map(([name, nonCollidable]) => [
+        name,
+        new Set(nonCollidable),
+      ]),
+    );
+  }
+
+  return {
+    methodNames: Object.keys(methods),
+    call,
+    exists: (path) => find(path) !== null,
+    snapshot: () => ({
+      services: services.map((service) => cloneInstance(service, null)),
+      collisionGroups: copyGroups(collisionGroups),
+      selection: [...selection],
+    }),
+    // Copies again so a snapshot can be restored more than once
+    restore: (snapshot) => {
+      services.splice(
+        0,
+        services.length,
+        ...snapshot.services.map((service) => cloneInstance(service, null)),
+      );
+      collisionGroups.clear();
+      for (const [name, nonCollidable] of copyGroups(
+        snapshot.collisionGroups,
+      )) {
+        collisionGroups.set(name, nonCollidable);
+      }
+      selection = [...snapshot.selection];
+    },
+  };
+}
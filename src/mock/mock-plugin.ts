@@ -0,0 +1,292 @@
+/**
+ * Mock VFX Forge plugin
+ * Connects to the bridge over a real WebSocket and answers requests from an
+ * in-memory DataModel, standing in for Roblox Studio in tests.
+ */
+
+import {
+  ServerMessageSchema,
+  type BridgeEvent,
+  type BridgeHandshake,
+  type BridgeRequest,
+  type BridgeResponse,
+  type ErrorInfo,
+  type InstanceChangedParams,
+  type ProgressEventParams,
+} from "../types/messages.js";
+import { getMethodPolicy } from "../bridge/policies.js";
+import {
+  createMockDataModel,
+  MockMethodError,
+  type DataModelFixture,
+  type MockDataModel,
+} from "./datamodel.js";
+import { createMockChangeHistory } from "./change-history.js";
+
+export interface MockPluginOptions {
+  url: string;
+  pairingCode?: string;
+  token?: string;
+  // Seed for a fresh DataModel; ignored when `dataModel` is given
+  fixture?: DataModelFixture;
+  // Reuse a DataModel, e.g. to simulate a plugin reload
+  dataModel?: MockDataModel;
+  placeName?: string;
+  placeId?: number;
+  pluginVersion?: string;
+  protocolVersion?: number;
+  // Advertised methods (defaults to everything the DataModel and change
+  // history implement)
+  methods?: string[];
+  resumeSession?: string;
+  // Delay before answering requests, to exercise timeouts and cancellation
+  responseDelayMs?: number;
+  respondToPings?: boolean;
+}
+
+export interface MockPlugin {
+  dataModel: MockDataModel;
+  sessionId: string;
+  // Token handed out when pairing with a code
+  token?: string;
+  // Requests received, in order
+  requests: BridgeRequest[];
+  // Ids of requests the server cancelled
+  cancelled: string[];
+  // Errors the server reported after the handshake
+  errors: ErrorInfo[];
+  // Send a frame as-is, e.g. to exercise protocol validation
+  sendRaw: (data: string) => void;
+  close: () => Promise<void>;
+}
+
+// Instance paths named in a request or result, at any depth
+function changedPaths(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(changedPaths);
+  if (!value || typeof value !== "object") return [];
+  return Object.entries(value).flatMap(([key, item]) => {
+    if (["path", "parent", "paths"].includes(key)) {
+      return [item].flat().filter((path) => typeof path === "string");
+    }
+    return typeof item === "object" ? changedPaths(item) : [];
+  });
+}
+
+/**
+ * Connect a mock plugin and wait for the handshake to be accepted. Rejects
+ * with the server's error if the handshake is refused.
+ */
+export function connectMockPlugin(
+  options: MockPluginOptions,
+): Promise<MockPlugin> {
+  const dataModel =
+    options.dataModel ??
+    createMockDataModel(options.fixture ?? { services: [] });
+  const history = createMockChangeHistory(dataModel);
+  const requests: BridgeRequest[] = [];
+  const cancelled: string[] = [];
+  const errors: ErrorInfo[] = [];
+  // Results of mutating requests by idempotency key, so replays are no-ops
+  const applied = new Map<string, BridgeResponse>();
+  const respondToPings = options.respondToPings ?? true;
+
+  let plugin: MockPlugin | null = null;
+  const ws = new WebSocket(options.url);
+
+  function send(message: unknown) {
+    ws.send(JSON.stringify(message));
+  }
+
+  function respond(request: BridgeRequest): BridgeResponse {
+    if (request.idempotencyKey) {
+      const previous = applied.get(request.idempotencyKey);
+      if (previous) return { ...previous, id: request.id };
+    }
+
+    const response: BridgeResponse = {
+      id: request.id,
+      type: "response",
+      timestamp: Date.now(),
+    };
+    try {
+      reportProgress(request);
+      response.result = history.methodNames.includes(request.method)
+        ? history.call(request.method, request.params)
+        : history.record(request.transactionId, () =>
+            dataModel.call(request.method, request.params),
+          );
+    } catch (error) {
+      response.error =
+        error instanceof MockMethodError
+          ? error.toErrorInfo()
+          : { code: "INTERNAL_ERROR", message: String(error) };
+    }
+
+    if (request.idempotencyKey) {
+      applied.set(request.idempotencyKey, response);
+    }
+    return response;
+  }
+
+  // Bulk creation reports one progress step per instance, like the plugin
+  function reportProgress(request: BridgeRequest) {
+    if (request.method !== "bulk_create_instances") return;
+
+    const total = (request.params.instances as unknown[] | undefined)?.length;
+    for (let progress = 1; total && progress <= total; progress++) {
+      const params: ProgressEventParams = {
+        requestId: request.id,
+        progress,
+        total,
+      };
+      const event: BridgeEvent = {
+        id: crypto.randomUUID(),
+        type: "event",
+        method: "progress",
+        params: { ...params },
+        timestamp: Date.now(),
+      };
+      send(event);
+    }
+  }
+
+  // Tell the server which instances a successful change touched, like the
+  // plugin's Changed/ChildAdded listeners would
+  function reportChanges(request: BridgeRequest, response: BridgeResponse) {
+    if (response.error || !getMethodPolicy(request.method).mutating) return;
+
+    const params: InstanceChangedParams = {};
+    // History methods can change anything
+    if (!history.methodNames.includes(request.method)) {
+      params.paths = [
+        ...new Set([
+          ...changedPaths(request.params),
+          ...changedPaths(response.result),
+        ]),
+      ];
+    }
+    const event: BridgeEvent = {
+      id: crypto.randomUUID(),
+      type: "event",
+      method: "instance_changed",
+      params: { ...params },
+      timestamp: Date.now(),
+    };
+    send(event);
+  }
+
+  function handleRequest(request: BridgeRequest) {
+    requests.push(request);
+
+    const reply = () => {
+      if (cancelled.includes(request.id)) return;
+      if (ws.readyState === WebSocket.OPEN) {
+        const response = respond(request);
+        send(response);
+        reportChanges(request, response);
+      }
+    };
+
+    if (options.responseDelayMs) {
+      setTimeout(reply, options.responseDelayMs);
+    } else {
+      reply();
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+
+    ws.onmessage = (event) => {
+      // The server's messages are validated just like the plugin's
+      const message = ServerMessageSchema.parse(JSON.parse(String(event.data)));
+
+      switch (message.type) {
+        case "welcome": {
+          const handshake: BridgeHandshake = {
+            type: "handshake",
+            params: {
+              pluginVersion: options.pluginVersion ?? "mock",
+              protocolVersion: options.protocolVersion ?? 1,
+              placeName: options.placeName ?? "MockPlace",
+              placeId: options.placeId ?? 0,
+              methods: options.methods ?? [
+                ...dataModel.methodNames,
+                ...history.methodNames,
+              ],
+              pairingCode: options.pairingCode,
+              token: options.token,
+              resumeSession: options.resumeSession,
+            },
+          };
+          send(handshake);
+          break;
+        }
+
+        // Sent right after "session" when pairing with a code
+        case "paired":
+          if (plugin) {
+            plugin.token = message.token;
+            resolve(plugin);
+          }
+          break;
+
+        case "session":
+          settled = true;
+          plugin = {
+            dataModel,
+            sessionId: message.sessionId,
+            token: options.token,
+            requests,
+            cancelled,
+            errors,
+            sendRaw: (data) => ws.send(data),
+            close: () =>
+              new Promise((done) => {
+                if (ws.readyState === WebSocket.CLOSED) {
+                  done();
+                  return;
+                }
+                ws.addEventListener("close", () => done(), { once: true });
+                ws.close();
+              }),
+          };
+          // Hold off until the token arrives so callers can reconnect with it
+          if (!options.pairingCode || options.token) resolve(plugin);
+          break;
+
+        case "error":
+          if (!settled) {
+            settled = true;
+            reject(
+              new Error(`${message.error.code}: ${message.error.message}`),
+            );
+          } else {
+            errors.push(message.error);
+          }
+          break;
+
+        case "ping":
+          if (respondToPings) {
+            send({ type: "pong", id: message.id, timestamp: Date.now() });
+          }
+          break;
+
+        case "cancel":
+          cancelled.push(message.id);
+          break;
+
+        case "request":
+          handleRequest(message);
+          break;
+      }
+    };
+
+    ws.onclose = (event) => {
+      if (!settled) {
+        settled = true;
+        reject(new Error(`Connection closed: ${event.code} ${event.reason}`));
+      }
+    };
+  });
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createPromptLibrary,
+  parsePromptTemplate,
+  renderPromptTemplate,
+} from "./templates.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const source = `---
+{
+  "description": "Audit particles",
+  "arguments": [
+    { "name": "root", "type": "path", "required": true },
+    { "name": "max_rate", "type": "number", "default": 200 },
+    { "name": "mode", "enum": ["quick", "full"], "default": "quick" }
+  ]
+}
+---
+Audit {{root}} ({{ mode }}), flagging Rate above {{max_rate}}.
+`;
+
+test("renders typed arguments with defaults", () => {
+  const template = parsePromptTemplate("audit", source);
+  expect(renderPromptTemplate(template, { root: "Workspace.Fireball" })).toBe(
+    "Audit Workspace.Fireball (quick), flagging Rate above 200.",
+  );
+  expect(
+    renderPromptTemplate(template, { root: "Workspace", max_rate: "50" }),
+  ).toBe("Audit Workspace (quick), flagging Rate above 50.");
+
+  expect(() => renderPromptTemplate(template, {})).toThrow(
+    'requires argument "root"',
+  );
+  expect(() =>
+    renderPromptTemplate(template, { root: "Workspace", max_rate: "lots" }),
+  ).toThrow("must be a number");
+  expect(() =>
+    renderPromptTemplate(template, { root: "Workspace", mode: "slow" }),
+  ).toThrow("must be one of quick, full");
+  expect(() => renderPromptTemplate(template, { root: "..Workspace" })).toThrow(
+    "must be an instance path",
+  );
+});
+
+test("rejects malformed templates", () => {
+  expect(() => parsePromptTemplate("bad", "---\n{ nope }\n---\nHi")).toThrow(
+    "not valid JSON",
+  );
+  expect(() => parsePromptTemplate("bad", "Hello {{name}}")).toThrow(
+    "{{name}} is not a declared argument",
+  );
+  expect(() =>
+    parsePromptTemplate(
+      "bad",
+      '---\n{ "arguments": [{ "name": "x", "type": "list" }] }\n---\n',
+    ),
+  ).toThrow("arguments.0.type");
+  expect(() =>
+    parsePromptTemplate(
+      "bad",
+      '---\n{ "arguments": [{ "name": "x", "type": "number", "default": "abc" }] }\n---\n',
+    ),
+  ).toThrow("arguments.0.default: must be a number");
+  expect(() =>
+    parsePromptTemplate(
+      "bad",
+      '---\n{ "arguments": [{ "name": "x", "enum": ["a", "b"], "default": "c" }] }\n---\n',
+    ),
+  ).toThrow("arguments.0.default: must be one of a, b");
+  expect(() =>
+    parsePromptTemplate(
+      "bad",
+      '---\n{ "arguments": [{ "name": "x", "type": "number", "enum": ["1"] }] }\n---\n',
+    ),
+  ).toThrow("enum is only allowed on string arguments");
+});
+
+test("loads the directory, skipping bad files and picking up edits", async () => {
+  await writeFile(join(dir, "audit.md"), source);
+  await writeFile(join(dir, "broken.md"), "Hello {{who}}");
+  await writeFile(join(dir, "notes.txt"), "not a template");
+  const library = createPromptLibrary(dir);
+
+  const prompts = await library.list();
+  expect(prompts.map((p) => p.name)).toEqual(["audit"]);
+  expect(prompts[0]!.arguments).toEqual([
+    { name: "root", description: "(path)", required: true },
+    {
+      name: "max_rate",
+      description: "(number; default: 200)",
+      required: false,
+    },
+    {
+      name: "mode",
+      description: "(one of quick, full; default: quick)",
+      required: false,
+    },
+  ]);
+
+  const path = join(dir, "audit.md");
+  await writeFile(path, "---\n{}\n---\nNo arguments now.");
+  const later = new Date(Date.now() + 5000);
+  await utimes(path, later, later);
+  const { messages } = await library.get("audit", {});
+  expect(messages[0]!.content).toEqual({
+    type: "text",
+    text: "No arguments now.",
+  });
+
+  await expect(library.get("missing", {})).rejects.toThrow("Unknown prompt");
+  expect(await createPromptLibrary(join(dir, "none")).list()).toEqual([]);
+});
+
+test("ships example templates that parse", async () => {
+  const library = createPromptLibrary(
+    join(import.meta.dir, "../../examples/prompts"),
+  );
+  expect((await library.list()).map((p) => p.name)).toEqual([
+    "audit-particles",
+    "fire-effect",
+  ]);
+  const { messages } = await library.get("fire-effect", { size: "large" });
+  expect(messages[0]!.content).toMatchObject({
+    text: expect.stringContaining("Build a large orange fire effect"),
+  });
+});
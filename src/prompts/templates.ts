@@ -0,0 +1,313 @@
+/**
+ * Prompt templates
+ * Loads user-authored prompt templates from a directory and serves them as MCP
+ * prompts. Each template is a Markdown file: a JSON front matter block with
+ * the description and typed arguments, then the prompt text with {{argument}}
+ * placeholders. Files are re-read when they change, so edits show up without
+ * restarting the server.
+ */
+
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, join } from "node:path";
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { log } from "../logger.js";
+
+const TEMPLATE_EXTENSION = ".md";
+
+const PROMPT_NAME = /^[A-Za-z0-9_-]+$/;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+const ArgumentSchema = z
+  .object({
+    name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+    description: z.string().optional(),
+    type: z.enum(["string", "number", "boolean", "path"]).default("string"),
+    // Allowed values, for string arguments
+    enum: z.array(z.string()).min(1).optional(),
+    required: z.boolean().default(false),
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  })
+  .strict()
+  .superRefine((arg, ctx) => {
+    if (arg.enum && arg.type !== "string") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "enum is only allowed on string arguments",
+        path: ["enum"],
+      });
+      return;
+    }
+    if (
+      arg.default !== undefined &&
+      normalizeValue(arg, String(arg.default)) === null
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `must be ${expectedValue(arg)}`,
+        path: ["default"],
+      });
+    }
+  });
+
+const FrontMatterSchema = z
+  .object({
+    title: z.string().optional(),
+    description: z.string().optional(),
+    arguments: z.array(ArgumentSchema).default([]),
+  })
+  .strict();
+
+type TemplateArgument = z.infer<typeof ArgumentSchema>;
+
+export interface PromptTemplate {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: TemplateArgument[];
+  body: string;
+}
+
+export interface PromptLibrary {
+  dir: string;
+  list: () => Promise<Prompt[]>;
+  // Throws InvalidParams for an unknown prompt or bad arguments
+  get: (
+    name: string,
+    args: Record<string, string> | undefined,
+  ) => Promise<GetPromptResult>;
+}
+
+/**
+ * Parse a template file, throwing with the reason if it is malformed
+ */
+export function parsePromptTemplate(
+  name: string,
+  source: string,
+): PromptTemplate {
+  if (!PROMPT_NAME.test(name)) {
+    throw new Error("File name may only use letters, digits, - and _");
+  }
+
+  const match = FRONT_MATTER.exec(source);
+  let frontMatter: unknown = {};
+  if (match) {
+    try {
+      frontMatter = JSON.parse(match[1]!);
+    } catch (error) {
+      throw new Error(
+        `Front matter is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  const parsed = FrontMatterSchema.safeParse(frontMatter);
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; "),
+    );
+  }
+
+  const body = (match ? source.slice(match[0].length) : source).trim();
+  const declared = new Set(parsed.data.arguments.map((arg) => arg.name));
+  for (const [, placeholder] of body.matchAll(PLACEHOLDER)) {
+    if (!declared.has(placeholder!)) {
+      throw new Error(`{{${placeholder}}} is not a declared argument`);
+    }
+  }
+
+  return { name, ...parsed.data, body };
+}
+
+function invalidParams(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+interface ArgumentType {
+  type: "string" | "number" | "boolean" | "path";
+  enum?: string[];
+}
+
+// The text to insert for a value of the argument's type, or null if the value
+// doesn't fit it
+function normalizeValue(arg: ArgumentType, value: string): string | null {
+  switch (arg.type) {
+    case "number":
+      return value.trim() && Number.isFinite(Number(value))
+        ? String(Number(value))
+        : null;
+    case "boolean":
+      return value === "true" || value === "false" ? value : null;
+    case "path":
+      return /^\.|\.$|\.\./.test(value) || !value.trim() ? null : value;
+    default:
+      return arg.enum && !arg.enum.includes(value) ? null : value;
+  }
+}
+
+function expectedValue(arg: ArgumentType): string {
+  switch (arg.type) {
+    case "number":
+      return "a number";
+    case "boolean":
+      return "true or false";
+    case "path":
+      return "an instance path such as Workspace.Fireball";
+    default:
+      return `one of ${arg.enum!.join(", ")}`;
+  }
+}
+
+// Check an argument against its declared type, returning the text to insert.
+// Defaults were checked when the template was parsed.
+function argumentValue(
+  template: PromptTemplate,
+  arg: TemplateArgument,
+  given: string | undefined,
+): string {
+  if (given === undefined && arg.required) {
+    throw invalidParams(
+      `Prompt "${template.name}" requires argument "${arg.name}"`,
+    );
+  }
+  if (given === undefined && arg.default === undefined) return "";
+
+  const value = given ?? String(arg.default);
+  const normalized = normalizeValue(arg, value);
+  if (normalized === null) {
+    throw invalidParams(
+      `Argument "${arg.name}" of prompt "${template.name}" must be ${expectedValue(arg)}`,
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Fill in a template's placeholders, validating the arguments first
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  args: Record<string, string> = {},
+): string {
+  for (const name of Object.keys(args)) {
+    if (!template.arguments.some((arg) => arg.name === name)) {
+      throw invalidParams(
+        `Prompt "${template.name}" has no argument "${name}"`,
+      );
+    }
+  }
+  const values = new Map(
+    template.arguments.map((arg) => [
+      arg.name,
+      argumentValue(template, arg, args[arg.name]),
+    ]),
+  );
+  return template.body.replace(
+    PLACEHOLDER,
+    (_, name: string) => values.get(name) ?? "",
+  );
+}
+
+function describeArgument(arg: TemplateArgument): string | undefined {
+  const hints = [
+    arg.type !== "string" && arg.type,
+    arg.enum && `one of ${arg.enum.join(", ")}`,
+    arg.default !== undefined && `default: ${String(arg.default)}`,
+  ].filter(Boolean);
+  if (!arg.description && hints.length === 0) return undefined;
+  return [arg.description, hints.length > 0 && `(${hints.join("; ")})`]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Serve the templates in `dir`. A missing directory means no prompts.
+ */
+export function createPromptLibrary(dir: string): PromptLibrary {
+  // Parsed templates by file, reused until the file changes
+  const cache = new Map<
+    string,
+    { mtimeMs: number; template: PromptTemplate | null }
+  >();
+
+  async function load(): Promise<PromptTemplate[]> {
+    let files: string[];
+    try {
+      files = (await readdir(dir))
+        .filter((file) => file.endsWith(TEMPLATE_EXTENSION))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const templates: PromptTemplate[] = [];
+    for (const file of files) {
+      const path = join(dir, file);
+      const { mtimeMs } = await stat(path);
+      let cached = cache.get(path);
+      if (!cached || cached.mtimeMs !== mtimeMs) {
+        cached = { mtimeMs, template: null };
+        try {
+          cached.template = parsePromptTemplate(
+            basename(file, TEMPLATE_EXTENSION),
+            await readFile(path, "utf8"),
+          );
+        } catch (error) {
+          // Logged once per change; the rest of the library still loads
+          log.warn(
+            `[Prompts] Skipping ${path}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+        cache.set(path, cached);
+      }
+      if (cached.template) templates.push(cached.template);
+    }
+    return templates;
+  }
+
+  return {
+    dir,
+
+    async list() {
+      return (await load()).map((template) => ({
+        name: template.name,
+        ...(template.title && { title: template.title }),
+        ...(template.description && { description: template.description }),
+        arguments: template.arguments.map((arg) => ({
+          name: arg.name,
+          description: describeArgument(arg),
+          required: arg.required,
+        })),
+      }));
+    },
+
+    async get(name, args) {
+      const template = (await load()).find((t) => t.name === name);
+      if (!template) {
+        throw invalidParams(`Unknown prompt: ${name}`);
+      }
+      return {
+        ...(template.description && { description: template.description }),
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: renderPromptTemplate(template, args),
+            },
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { loadControlToken } from "./bridge/auth.js";
+import { createBridge, type PluginBridge } from "./bridge/connection.js";
+import {
+  createHttpMcpEndpoint,
+  MCP_CONTROL_PATH,
+  type HttpMcpEndpoint,
+} from "./http.js";
+import { connectMockPlugin, type MockPlugin } from "./mock/mock-plugin.js";
+import type { DataModelFixture } from "./mock/datamodel.js";
+import fireball from "./mock/fixtures/fireball.json";
+import { detectDaemon, startProxy, type DaemonProxy } from "./proxy.js";
+import { createMcpServer } from "./server.js";
+
+let stateDir: string;
+let bridge: PluginBridge;
+let control: HttpMcpEndpoint;
+let plugin: MockPlugin;
+let client: Client;
+let proxy: DaemonProxy | null;
+
+/**
+ * Connect a client through a proxy to the control endpoint at `url`
+ */
+async function connectThroughProxy(url: string, token: string) {
+  const [clientTransport, proxyTransport] =
+    InMemoryTransport.createLinkedPair();
+  proxy = await startProxy(proxyTransport, { url, token });
+  client = new Client({ name: "proxied-client", version: "0.0.0" });
+  await client.connect(clientTransport);
+}
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  bridge = await createBridge(0, { stateDir, reconnectGraceMs: 0 });
+  control = createHttpMcpEndpoint(() => createMcpServer(bridge, () => null), {
+    token: await loadControlToken(stateDir),
+  });
+  bridge.addHttpRoute(MCP_CONTROL_PATH, control.handle);
+  plugin = await connectMockPlugin({
+    url: `ws://localhost:${bridge.port}/ws`,
+    pairingCode: bridge.getPairingCode().code,
+    fixture: fireball as DataModelFixture,
+  });
+  proxy = null;
+});
+
+afterEach(async () => {
+  await proxy?.close();
+  await control.close();
+  await plugin.close();
+  bridge.shutdown();
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+describe("daemon detection", () => {
+  test("finds a running server by its health check", async () => {
+    expect(await detectDaemon(bridge.port)).toEqual({
+      url: `http://localhost:${bridge.port}`,
+      connected: true,
+    });
+  });
+
+  test("ignores ports held by other programs", async () => {
+    const other = Bun.serve({
+      port: 0,
+      fetch: () => Response.json({ status: "ok" }),
+    });
+    try {
+      expect(await detectDaemon(other.port!)).toBeNull();
+    } finally {
+      other.stop(true);
+    }
+  });
+});
+
+describe("proxy", () => {
+  test("forwards a client's calls to the running server", async () => {
+    await connectThroughProxy(
+      `http://localhost:${bridge.port}${MCP_CONTROL_PATH}`,
+      await loadControlToken(stateDir),
+    );
+    expect(control.sessionCount()).toBe(1);
+
+    const { tools } = await client.listTools();
+    expect(tools.some((tool) => tool.name === "get_children")).toBe(true);
+
+    const result = await client.callTool({
+      name: "get_children",
+      arguments: { path: "Workspace" },
+    });
+    expect(result.isError).toBeFalsy();
+
+    await proxy!.close();
+    proxy = null;
+    expect(control.sessionCount()).toBe(0);
+  });
+
+  test("fails requests when the server refuses the proxy", async () => {
+    await expect(
+      connectThroughProxy(
+        `http://localhost:${bridge.port}${MCP_CONTROL_PATH}`,
+        "not-the-token",
+      ),
+    ).rejects.toThrow(/unreachable/);
+    expect(control.sessionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Daemon proxy
+ * When another vfx-forge-mcp server already owns the bridge port, a new
+ * server runs as a thin proxy instead: it relays its client's MCP messages to
+ * the running server's control endpoint, so every agent window shares the
+ * one bridge.
+ */
+
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { HEALTH_SERVICE } from "./bridge/connection.js";
+import { log } from "./logger.js";
+
+const DETECT_TIMEOUT_MS = 2000;
+
+export interface DaemonInfo {
+  url: string;
+  connected: boolean;
+}
+
+export interface DaemonProxy {
+  // Ends the proxied session and closes both transports
+  close: () => Promise<void>;
+}
+
+export interface ProxyOptions {
+  // Control endpoint of the running server
+  url: string;
+  token: string;
+}
+
+/**
+ * Check whether a vfx-forge-mcp server is listening on `port`; null when the
+ * port is free or held by something else
+ */
+export async function detectDaemon(port: number): Promise<DaemonInfo | null> {
+  const url = `http://localhost:${port}`;
+  try {
+    const response = await fetch(`${url}/health`, {
+      signal: AbortSignal.timeout(DETECT_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    const health = (await response.json()) as {
+      service?: unknown;
+      connected?: unknown;
+    };
+    if (health.service !== HEALTH_SERVICE) return null;
+    return { url, connected: health.connected === true };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Relay messages between `local` (the client's transport) and the running
+ * server's control endpoint until the client disconnects
+ */
+export async function startProxy(
+  local: Transport,
+  options: ProxyOptions,
+): Promise<DaemonProxy> {
+  const remote = new StreamableHTTPClientTransport(new URL(options.url), {
+    requestInit: { headers: { Authorization: `Bearer ${options.token}` } },
+  });
+  let initializeId: RequestId | null = null;
+  let closing = false;
+  // Messages are posted one at a time so the server sees them in order
+  let sending = Promise.resolve();
+
+  const close = async () => {
+    if (closing) return;
+    closing = true;
+    // Ends the daemon's session for this client; it may already be gone
+    await remote.terminateSession().catch(() => {});
+    await remote.close();
+    await local.close();
+  };
+
+  local.onmessage = (message) => {
+    if (isJSONRPCRequest(message) && message.method === "initialize") {
+      initializeId = message.id;
+    }
+    sending = sending
+      .then(() => remote.send(message))
+      .catch((error: unknown) => {
+        // Already logged through onerror; answer requests so the client is
+        // not left waiting
+        const reason = error instanceof Error ? error.message : String(error);
+        if (isJSONRPCRequest(message)) {
+          void local.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: {
+              code: ErrorCode.ConnectionClosed,
+              message: `The vfx-forge-mcp server at ${options.url} is unreachable: ${reason}`,
+            },
+          });
+        }
+      });
+  };
+
+  remote.onmessage = (message) => {
+    // Later requests carry the negotiated version, as a client's would
+    if (isJSONRPCResultResponse(message) && message.id === initializeId) {
+      const { protocolVersion } = message.result as { protocolVersion: string };
+      remote.setProtocolVersion(protocolVersion);
+    }
+    void local.send(message);
+  };
+
+  remote.onerror = (error) => {
+    log.warn(`[Proxy] ${error.message}`);
+  };
+  local.onclose = () => void close();
+
+  await remote.start();
+  await local.start();
+  return { close };
+}
@@ -0,0 +1,145 @@
+/**
+ * Instance resources
+ * Exposes DataModel instances as MCP resources at vfx-forge://instance/{path},
+ * read through the plugin's read tools, and works out which subscribed
+ * resources a plugin `instance_changed` event affects.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { BridgeError } from "../bridge/errors.js";
+import type { InstanceInfo, InstanceRef } from "../types/messages.js";
+
+export const INSTANCE_URI_PREFIX = "vfx-forge://instance/";
+
+// JSON-RPC error the MCP spec uses for missing resources
+const RESOURCE_NOT_FOUND = -32002;
+
+export const INSTANCE_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${INSTANCE_URI_PREFIX}{path}`,
+  name: "instance",
+  title: "Studio instance",
+  description:
+    "An instance's properties, attributes, tags and children, e.g. vfx-forge://instance/Workspace.Fireball. Subscribe to be notified when it changes.",
+  mimeType: "application/json",
+};
+
+/**
+ * Runs a read tool with the same checks as a direct call
+ */
+export type ToolReader = (
+  name: string,
+  args: Record<string, unknown>,
+) => Promise<unknown>;
+
+export function instanceUri(path: string): string {
+  return `${INSTANCE_URI_PREFIX}${encodeURIComponent(path)}`;
+}
+
+/**
+ * Instance path of a resource URI; throws InvalidParams for other URIs
+ */
+export function parseInstanceUri(uri: string): string {
+  let path = "";
+  if (uri.startsWith(INSTANCE_URI_PREFIX)) {
+    try {
+      path = decodeURIComponent(uri.slice(INSTANCE_URI_PREFIX.length));
+    } catch {
+      // Malformed escape; reported below
+    }
+  }
+  if (!path) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown resource: ${uri}. Use ${INSTANCE_RESOURCE_TEMPLATE.uriTemplate}`,
+    );
+  }
+  return path;
+}
+
+// "game.Workspace.Part" and "Workspace.Part" name the same instance
+function normalize(path: string): string {
+  return path.replace(/^game\./, "");
+}
+
+function parentOf(path: string): string {
+  return path.slice(0, Math.max(0, path.lastIndexOf(".")));
+}
+
+/**
+ * Whether a change to `changed` alters the resource for `subscribed`: the
+ * instance itself changed, or one of its children was added, removed or
+ * changed how it is listed
+ */
+export function isAffectedBy(subscribed: string, changed: string): boolean {
+  const target = normalize(subscribed);
+  const path = normalize(changed);
+  return path === target || parentOf(path) === target;
+}
+
+/**
+ * Read an instance's properties, attributes, tags and children
+ */
+export async function readInstanceResource(
+  uri: string,
+  read: ToolReader,
+): Promise<ReadResourceResult> {
+  const path = parseInstanceUri(uri);
+  let reads: unknown[];
+  try {
+    reads = await Promise.all([
+      read("get_properties", { path }),
+      read("get_attributes", { path }),
+      read("get_tags", { path }),
+      read("get_children", { path }),
+    ]);
+  } catch (error) {
+    if (error instanceof BridgeError) {
+      throw new McpError(
+        error.code === "NOT_FOUND"
+          ? RESOURCE_NOT_FOUND
+          : ErrorCode.InternalError,
+        error.message,
+        error.toErrorInfo(),
+      );
+    }
+    throw error;
+  }
+  const [properties, attributes, tags, children] = reads as [
+    { properties: Record<string, unknown> },
+    { attributes: Record<string, { value: unknown }> },
+    { tags: string[] },
+    { results: InstanceRef[] },
+  ];
+
+  const name = path.slice(path.lastIndexOf(".") + 1);
+  const info: InstanceInfo = {
+    path,
+    class: String(properties.properties.ClassName ?? ""),
+    name: String(properties.properties.Name ?? name),
+    ...(parentOf(path) && { parent: parentOf(path) }),
+    properties: properties.properties as InstanceInfo["properties"],
+    attributes: Object.fromEntries(
+      Object.entries(attributes.attributes).map(([key, attribute]) => [
+        key,
+        attribute.value,
+      ]),
+    ) as InstanceInfo["attributes"],
+    tags: tags.tags,
+    children: children.results,
+  };
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(info, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBridge, type PluginBridge } from "./bridge/connection.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { connectMockPlugin, type MockPlugin } from "./mock/mock-plugin.js";
+import type { DataModelFixture } from "./mock/datamodel.js";
+import fireball from "./mock/fixtures/fireball.json";
+import { createToolGateway, TOOLS_HTTP_PATH } from "./rest.js";
+import { createAuditLog } from "./tools/audit-log.js";
+import {
+  DEFAULT_PERMISSIONS,
+  type PermissionPolicy,
+} from "./tools/permissions.js";
+import { createTransactionLog } from "./tools/transactions.js";
+
+let stateDir: string;
+let bridge: PluginBridge;
+let plugin: MockPlugin;
+let permissions: PermissionPolicy;
+
+function url(path = ""): string {
+  return `http://localhost:${bridge.port}${TOOLS_HTTP_PATH}${path}`;
+}
+
+async function post(name: string, body: unknown) {
+  const response = await fetch(url(`/${name}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  return { status: response.status, data: await response.json() };
+}
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  bridge = await createBridge(0, { stateDir, reconnectGraceMs: 0 });
+  plugin = await connectMockPlugin({
+    url: `ws://localhost:${bridge.port}/ws`,
+    pairingCode: bridge.getPairingCode().code,
+    fixture: fireball as DataModelFixture,
+  });
+  permissions = DEFAULT_PERMISSIONS;
+  const transactions = createTransactionLog();
+  const auditLog = createAuditLog(null);
+  bridge.addHttpRoute(
+    TOOLS_HTTP_PATH,
+    createToolGateway(() => ({
+      bridge,
+      docs: null,
+      permissions,
+      transactions,
+      auditLog,
+      config: DEFAULT_CONFIG,
+    })),
+  );
+});
+
+afterEach(async () => {
+  await plugin.close();
+  bridge.shutdown();
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+describe("tool gateway", () => {
+  test("lists the tools that can be called", async () => {
+    const response = await fetch(url());
+    expect(response.status).toBe(200);
+    const { tools } = (await response.json()) as {
+      tools: { name: string; inputSchema: unknown }[];
+    };
+    const tagged = tools.find((tool) => tool.name === "get_tagged_instances");
+    expect(tagged?.inputSchema).toBeDefined();
+  });
+
+  test("calls a tool", async () => {
+    const { status, data } = await post("get_children", { path: "Workspace" });
+    expect(status).toBe(200);
+    expect(data.results.length).toBeGreaterThan(0);
+  });
+
+  test("reports errors with a matching status", async () => {
+    const invalid = await post("get_children", { path: 42 });
+    expect(invalid.status).toBe(400);
+    expect(invalid.data.error.code).toBe("INVALID_ARGUMENTS");
+
+    const malformed = await post("get_children", "{not json");
+    expect(malformed.status).toBe(400);
+
+    const unknown = await post("no_such_tool", {});
+    expect(unknown.status).toBe(404);
+    expect(unknown.data.error.code).toBe("NOT_FOUND");
+  });
+
+  test("applies the permission policy", async () => {
+    permissions = { ...DEFAULT_PERMISSIONS, readOnly: true };
+    const { status, data } = await post("create_instance", {
+      class_name: "Folder",
+      parent: "Workspace",
+    });
+    expect(status).toBe(403);
+    expect(data.error.code).toBe("PERMISSION_DENIED");
+
+    const preview = await post("create_instance", {
+      class_name: "Folder",
+      parent: "Workspace",
+      dry_run: true,
+    });
+    expect(preview.status).toBe(200);
+    expect(preview.data.changes[0].kind).toBe("create");
+  });
+
+  test("only accepts GET for the list and POST for calls", async () => {
+    expect((await fetch(url("/get_children"))).status).toBe(405);
+    expect((await fetch(url(), { method: "POST" })).status).toBe(405);
+  });
+
+  test("rejects remote clients without a token", async () => {
+    const gateway = createToolGateway(() => {
+      throw new Error("not reached");
+    });
+    const response = await gateway(new Request(url()), "10.0.0.8");
+    expect(response.status).toBe(403);
+
+    const withToken = createToolGateway(
+      () => {
+        throw new Error("not reached");
+      },
+      { token: "s3cret" },
+    );
+    expect((await withToken(new Request(url()), "127.0.0.1")).status).toBe(401);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * REST tool gateway
+ * Plain HTTP/JSON access to the tools for scripts that don't speak MCP:
+ * GET /tools lists the tools that can be called and POST /tools/{name} calls
+ * one with a JSON object of arguments. Calls go through handleToolCall, so
+ * they get the same validation, permissions and audit log as MCP calls.
+ */
+
+import { BridgeError } from "./bridge/errors.js";
+import type { HttpRouteHandler } from "./bridge/connection.js";
+import { checkHttpAccess } from "./http.js";
+import {
+  getAvailableTools,
+  handleToolCall,
+  isKnownTool,
+  isPluginTool,
+  type ServerContext,
+} from "./tools/index.js";
+import type { ErrorInfo } from "./types/messages.js";
+
+export const TOOLS_HTTP_PATH = "/tools";
+
+export interface ToolGatewayOptions {
+  // Same rules as the MCP HTTP endpoint
+  token?: string;
+}
+
+// Error codes that mean something other than a server failure
+const STATUS_BY_CODE: Record<string, number> = {
+  INVALID_ARGUMENTS: 400,
+  INVALID_REFERENCE: 400,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  ALREADY_EXISTS: 409,
+  TRANSACTION_ACTIVE: 409,
+  NO_TRANSACTION: 409,
+  NOTHING_TO_UNDO: 409,
+  NOTHING_TO_REDO: 409,
+  CONNECTION_LOST: 503,
+  SESSION_STALE: 503,
+  TIMEOUT: 504,
+};
+
+function errorResponse(error: ErrorInfo, headers: HeadersInit): Response {
+  return Response.json(
+    { success: false, error },
+    { status: STATUS_BY_CODE[error.code] ?? 500, headers },
+  );
+}
+
+// Origins reaching a route were already checked by the bridge
+function corsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin");
+  return origin
+    ? { "Access-Control-Allow-Origin": origin, Vary: "Origin" }
+    : {};
+}
+
+async function readArguments(req: Request): Promise<Record<string, unknown>> {
+  const text = await req.text();
+  let args: unknown = {};
+  try {
+    if (text.trim()) args = JSON.parse(text);
+  } catch {
+    throw new BridgeError("INVALID_ARGUMENTS", "Body is not valid JSON");
+  }
+  if (typeof args !== "object" || args === null || Array.isArray(args)) {
+    throw new BridgeError(
+      "INVALID_ARGUMENTS",
+      "Body must be a JSON object of tool arguments",
+    );
+  }
+  return args as Record<string, unknown>;
+}
+
+async function callTool(
+  context: ServerContext,
+  name: string,
+  req: Request,
+): Promise<unknown> {
+  if (!isKnownTool(name)) {
+    throw new BridgeError("NOT_FOUND", `Unknown tool: ${name}`);
+  }
+  const args = await readArguments(req);
+  const session = args.session as string | undefined;
+  if (isPluginTool(name) && !context.bridge.isConnected(session)) {
+    throw new BridgeError(
+      "CONNECTION_LOST",
+      session
+        ? `No connected Studio session matches "${session}"`
+        : "VFX Forge plugin is not connected",
+    );
+  }
+  // Nobody to ask, so tools that need confirmation are refused
+  return handleToolCall(context, name, args, { signal: req.signal });
+}
+
+/**
+ * Create the handler for the /tools routes
+ */
+export function createToolGateway(
+  createContext: () => ServerContext,
+  options: ToolGatewayOptions = {},
+): HttpRouteHandler {
+  return async (req, clientAddress) => {
+    const headers = corsHeaders(req);
+    if (req.method === "OPTIONS") {
+      return new Response(null, {
+        status: 204,
+        headers: {
+          ...headers,
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+          "Access-Control-Allow-Headers": "Authorization, Content-Type",
+        },
+      });
+    }
+
+    const denied = checkHttpAccess(req, clientAddress, options.token);
+    if (denied) {
+      return Response.json(
+        {
+          success: false,
+          error: { code: "PERMISSION_DENIED", message: denied.message },
+        },
+        { status: denied.status, headers },
+      );
+    }
+
+    const { pathname } = new URL(req.url);
+    const name = pathname.slice(TOOLS_HTTP_PATH.length + 1);
+    const allowed = name ? "POST" : "GET";
+    if (req.method !== allowed) {
+      return new Response(null, {
+        status: 405,
+        headers: { ...headers, Allow: allowed },
+      });
+    }
+
+    const context = createContext();
+    if (!name) {
+      return Response.json(
+        { tools: getAvailableTools(context.bridge, context.permissions) },
+        { headers },
+      );
+    }
+
+    try {
+      return Response.json(await callTool(context, name, req), { headers });
+    } catch (error) {
+      return errorResponse(
+        error instanceof BridgeError
+          ? error.toErrorInfo()
+          : {
+              code: "OPERATION_FAILED",
+              message: error instanceof Error ? error.message : String(error),
+            },
+        headers,
+      );
+    }
+  };
+}
@@ -0,0 +1,1025 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ElicitRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  type ClientCapabilities,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createBridge, type PluginBridge } from "./bridge/connection.js";
+import { resolveConfig } from "./config.js";
+import { createPromptLibrary } from "./prompts/templates.js";
+import { createMcpServer } from "./server.js";
+import {
+  DEFAULT_PERMISSIONS,
+  type PermissionPolicy,
+} from "./tools/permissions.js";
+import { connectMockPlugin, type MockPlugin } from "./mock/mock-plugin.js";
+import {
+  createMockDataModel,
+  type DataModelFixture,
+} from "./mock/datamodel.js";
+import fireball from "./mock/fixtures/fireball.json";
+
+const fixture = fireball as DataModelFixture;
+
+let stateDir: string;
+let bridge: PluginBridge;
+let client: Client;
+let plugin: MockPlugin | null;
+
+async function connectPlugin(
+  options: Partial<Parameters<typeof connectMockPlugin>[0]> = {},
+) {
+  plugin = await connectMockPlugin({
+    url: `ws://localhost:${bridge.port}/ws`,
+    pairingCode: bridge.getPairingCode().code,
+    fixture,
+    ...options,
+  });
+  return plugin;
+}
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as { type: string; text: string }[];
+  return {
+    isError: result.isError === true,
+    data: JSON.parse(content!.text),
+  };
+}
+
+/**
+ * Connect a fresh client to a server with the given permission policy,
+ * replacing the current client
+ */
+async function connectClient(
+  permissions: Partial<PermissionPolicy> = {},
+  capabilities: ClientCapabilities = {},
+) {
+  await client?.close();
+  const server = createMcpServer(bridge, () => null, {
+    permissions: { ...DEFAULT_PERMISSIONS, ...permissions },
+    prompts: createPromptLibrary(join(stateDir, "prompts")),
+  });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  client = new Client(
+    { name: "test-client", version: "0.0.0" },
+    { capabilities },
+  );
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+}
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+  bridge = await createBridge(0, { stateDir, reconnectGraceMs: 0 });
+  plugin = null;
+  await connectClient();
+});
+
+afterEach(async () => {
+  await client.close();
+  await plugin?.close();
+  bridge.shutdown();
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+describe("tool listing", () => {
+  test("hides plugin tools until a plugin connects", async () => {
+    const before = (await client.listTools()).tools.map((t) => t.name);
+    expect(before).toContain("get_connection_status");
+    expect(before).not.toContain("query_descendants");
+
+    await connectPlugin();
+    const after = (await client.listTools()).tools.map((t) => t.name);
+    expect(after).toContain("query_descendants");
+  });
+
+  test("only lists methods the plugin advertises", async () => {
+    await connectPlugin({ methods: ["get_children", "get_tags"] });
+    const names = (await client.listTools()).tools.map((t) => t.name);
+    expect(names).toContain("get_children");
+    expect(names).not.toContain("bulk_scale");
+  });
+});
+
+describe("tool calls", () => {
+  test("reports CONNECTION_LOST without a plugin", async () => {
+    const { isError, data } = await call("get_selection");
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("CONNECTION_LOST");
+  });
+
+  test("queries descendants with a selector", async () => {
+    await connectPlugin();
+    const { data } = await call("query_descendants", {
+      root: "Workspace.Fireball",
+      selector: ">>ParticleEmitter",
+    });
+    expect(data.total).toBe(2);
+    expect(data.results.map((r: { name: string }) => r.name)).toEqual([
+      "Flames",
+      "Sparks",
+    ]);
+  });
+
+  test("creates an instance and reads it back", async () => {
+    await connectPlugin();
+    const created = await call("create_instance", {
+      class_name: "Beam",
+      parent: "Workspace.Fireball.Core",
+      name: "Trail",
+      properties: { Width0: 2 },
+    });
+    expect(created.data.path).toBe("Workspace.Fireball.Core.Trail");
+
+    const { data } = await call("get_properties", {
+      path: "Workspace.Fireball.Core.Trail",
+      properties: ["ClassName", "Width0"],
+    });
+    expect(data.properties).toEqual({ ClassName: "Beam", Width0: 2 });
+  });
+
+  test("manages tags, attributes and collision groups", async () => {
+    const { dataModel } = await connectPlugin();
+    await call("add_tag", { path: "Workspace.Baseplate", tag: "Ground" });
+    await call("set_attribute", {
+      path: "Workspace.Fireball",
+      attribute: "Intensity",
+      value: 5,
+    });
+    await call("create_collision_group", { name: "Debris" });
+
+    const tags = await call("get_tags", { path: "Workspace.Baseplate" });
+    expect(tags.data.tags).toContain("Ground");
+    expect(
+      dataModel.call("get_attributes", { path: "Workspace.Fireball" }),
+    ).toMatchObject({
+      attributes: { Intensity: { value: 5, type: "number" } },
+    });
+    expect(
+      dataModel.call("get_collision_group_collidable", {
+        group1: "Debris",
+        group2: "Effects",
+      }),
+    ).toMatchObject({ collidable: true });
+  });
+
+  test("sets a property on many instances at once", async () => {
+    const { dataModel } = await connectPlugin();
+    const { data } = await call("bulk_set_property", {
+      paths: [
+        "Workspace.Fireball.Core.Flames",
+        "Workspace.Fireball.Core.Sparks",
+      ],
+      property: "Rate",
+      value: 50,
+    });
+    expect(data.affected_count).toBe(2);
+    expect(
+      dataModel.call("get_properties", {
+        path: "Workspace.Fireball.Core.Sparks",
+        properties: ["Rate"],
+      }),
+    ).toEqual({ properties: { Rate: 50 } });
+  });
+
+  test("surfaces plugin error codes", async () => {
+    await connectPlugin();
+    const { isError, data } = await call("get_properties", {
+      path: "Workspace.Missing",
+    });
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("argument validation", () => {
+  test("lists every bad field without calling the plugin", async () => {
+    const plugin = await connectPlugin();
+    const { isError, data } = await call("bulk_scale", { factor: "2" });
+
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("INVALID_ARGUMENTS");
+    expect(data.error.details.fields).toEqual([
+      { field: "paths", message: "Required" },
+      { field: "factor", message: "Expected number, received string" },
+    ]);
+    expect(plugin.requests).toHaveLength(0);
+  });
+
+  test("reports the failing part of a typed value", async () => {
+    await connectPlugin();
+    const { data } = await call("set_property", {
+      path: "Workspace.Fireball.Core",
+      property: "Color",
+      value: { _type: "Color3", r: "red", g: 0, b: 0 },
+    });
+
+    expect(data.error.details.fields).toEqual([
+      { field: "value.r", message: "Expected number, received string" },
+    ]);
+  });
+
+  test("rejects unknown arguments", async () => {
+    await connectPlugin();
+    const { data } = await call("get_tags", {
+      path: "Workspace.Fireball",
+      Path: "Workspace.Fireball",
+    });
+
+    expect(data.error.details.fields).toEqual([
+      { field: "Path", message: "Unknown argument" },
+    ]);
+  });
+
+  test("advertises input schemas generated from the tool schemas", async () => {
+    await connectPlugin();
+    const { tools } = await client.listTools();
+    const scale = tools.find((t) => t.name === "bulk_scale")!;
+
+    expect(scale.inputSchema.required).toEqual(["paths", "factor"]);
+    expect(scale.inputSchema.properties).toHaveProperty("session");
+  });
+});
+
+describe("structured output", () => {
+  test("returns structuredContent matching the text result", async () => {
+    await connectPlugin();
+    const result = await client.callTool({
+      name: "get_tags",
+      arguments: { path: "Workspace.Fireball" },
+    });
+    const [content] = result.content as { type: string; text: string }[];
+
+    expect(result.structuredContent).toEqual(JSON.parse(content!.text));
+    expect(result.structuredContent).toHaveProperty("tags");
+  });
+
+  test("advertises output schemas and annotations", async () => {
+    await connectPlugin();
+    const { tools } = await client.listTools();
+    const byName = (name: string) => tools.find((t) => t.name === name)!;
+
+    expect(byName("query_descendants").outputSchema?.required).toEqual([
+      "results",
+      "total",
+      "limited",
+    ]);
+    expect(byName("get_children").annotations).toEqual({
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+    });
+    expect(byName("bulk_delete").annotations).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+    });
+    expect(byName("create_instance").annotations).toMatchObject({
+      destructiveHint: false,
+      idempotentHint: false,
+    });
+    expect(byName("list_sessions").annotations).toEqual({
+      readOnlyHint: true,
+    });
+  });
+
+  test("rejects plugin results that don't match the output schema", async () => {
+    const dataModel = createMockDataModel(fixture);
+    await connectPlugin({
+      dataModel: { ...dataModel, call: () => ({ tags: "Ground" }) },
+    });
+    const { isError, data } = await call("get_tags", {
+      path: "Workspace.Fireball",
+    });
+
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("PROTOCOL_ERROR");
+  });
+});
+
+describe("permissions", () => {
+  test("read-only mode refuses tools that change the place", async () => {
+    await connectClient({ readOnly: true });
+    const plugin = await connectPlugin();
+    const names = (await client.listTools()).tools.map((t) => t.name);
+    expect(names).toContain("get_children");
+
+    const { isError, data } = await call("bulk_delete", {
+      paths: ["Workspace.Fireball"],
+    });
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("PERMISSION_DENIED");
+    expect(plugin.requests).toHaveLength(0);
+  });
+
+  test("read-only mode still allows dry run previews", async () => {
+    await connectClient({ readOnly: true });
+    await connectPlugin();
+    const names = (await client.listTools()).tools.map((t) => t.name);
+    expect(names).toContain("bulk_delete");
+
+    const { isError, data } = await call("bulk_delete", {
+      paths: ["Workspace.Fireball"],
+      dry_run: true,
+    });
+    expect(isError).toBe(false);
+    expect(data.changes[0]).toMatchObject({
+      target: "Workspace.Fireball",
+      kind: "delete",
+    });
+  });
+
+  test("refuses paths under a denied prefix, including nested ones", async () => {
+    await connectClient({ denyPaths: ["ServerScriptService"] });
+    const plugin = await connectPlugin();
+
+    const { data } = await call("bulk_create_instances", {
+      instances: [
+        { class_name: "Script", parent: "game.ServerScriptService.Effects" },
+      ],
+    });
+    expect(data.error.code).toBe("PERMISSION_DENIED");
+    expect(data.error.details.path).toBe("game.ServerScriptService.Effects");
+    expect(plugin.requests).toHaveLength(0);
+
+    const allowed = await call("get_children", { path: "Workspace" });
+    expect(allowed.isError).toBe(false);
+  });
+
+  test("checks the paths tools use when arguments are left out", async () => {
+    await connectClient({ allowPaths: ["Workspace.Fireball"] });
+    const plugin = await connectPlugin();
+
+    // query_descendants searches Workspace by default
+    const query = await call("query_descendants", { selector: "Part" });
+    expect(query.data.error.details.path).toBe("Workspace");
+
+    // Tagged instances are looked up across the whole place without a root
+    const tagged = await call("get_tagged_instances", { tag: "Hot" });
+    expect(tagged.data.error.code).toBe("PERMISSION_DENIED");
+
+    // Clones go next to their source unless a parent is given
+    const clone = await call("clone_instance", {
+      source: "Workspace.Fireball",
+    });
+    expect(clone.data.error.details.path).toBe("Workspace");
+    expect(plugin.requests).toHaveLength(0);
+
+    const within = await call("clone_instance", {
+      source: "Workspace.Fireball.Core",
+    });
+    expect(within.isError).toBe(false);
+  });
+
+  test("asks the user before destructive tools run", async () => {
+    await connectClient(
+      { confirmDestructive: true },
+      { elicitation: { form: {} } },
+    );
+    const messages: string[] = [];
+    let answer = false;
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      messages.push(request.params.message);
+      return { action: "accept", content: { confirm: answer } };
+    });
+    const { dataModel } = await connectPlugin();
+
+    const declined = await call("delete_instance", {
+      path: "Workspace.Fireball.Core.Sparks",
+    });
+    expect(declined.data.error.code).toBe("PERMISSION_DENIED");
+    expect(messages[0]).toContain("Workspace.Fireball.Core.Sparks");
+
+    answer = true;
+    const accepted = await call("delete_instance", {
+      path: "Workspace.Fireball.Core.Sparks",
+    });
+    expect(accepted.isError).toBe(false);
+    expect(
+      dataModel.call("instance_exists", {
+        path: "Workspace.Fireball.Core.Sparks",
+      }),
+    ).toMatchObject({ exists: false });
+
+    // Non-destructive tools don't ask
+    await call("add_tag", { path: "Workspace.Fireball", tag: "Hot" });
+    expect(messages).toHaveLength(2);
+  });
+
+  test("confirms a workflow's destructive steps, not the workflow", async () => {
+    await connectClient(
+      { confirmDestructive: true },
+      { elicitation: { form: {} } },
+    );
+    const messages: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      messages.push(request.params.message);
+      return { action: "accept", content: { confirm: true } };
+    });
+    await connectPlugin();
+
+    const reads = await call("run_workflow", {
+      steps: [{ tool: "get_children", args: { path: "Workspace" } }],
+    });
+    expect(reads.data.success).toBe(true);
+    expect(messages).toHaveLength(0);
+
+    const deletes = await call("run_workflow", {
+      steps: [
+        { tool: "add_tag", args: { path: "Workspace.Fireball", tag: "Hot" } },
+        {
+          tool: "delete_instance",
+          args: { path: "Workspace.Fireball.Core.Sparks" },
+        },
+      ],
+    });
+    expect(deletes.data.success).toBe(true);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain("delete_instance");
+  });
+
+  test("refuses destructive tools when the client can't confirm", async () => {
+    await connectClient({ confirmDestructive: true });
+    await connectPlugin();
+    const { data } = await call("bulk_delete", {
+      paths: ["Workspace.Fireball"],
+    });
+    expect(data.error.code).toBe("PERMISSION_DENIED");
+    expect(data.error.message).toContain("elicitation");
+  });
+});
+
+describe("dry run", () => {
+  test("previews a bulk property change without applying it", async () => {
+    const plugin = await connectPlugin();
+    const { isError, data } = await call("bulk_set_property", {
+      paths: [
+        "Workspace.Fireball.Core.Flames",
+        "Workspace.Fireball.Core.Sparks",
+      ],
+      property: "Rate",
+      value: 200,
+      dry_run: true,
+    });
+
+    expect(isError).toBe(false);
+    expect(data).toMatchObject({ success: true, dry_run: true });
+    expect(data.affected_count).toBe(2);
+    expect(data.changes[0]).toEqual({
+      target: "Workspace.Fireball.Core.Flames",
+      kind: "property",
+      name: "Rate",
+      before: 50,
+      after: 200,
+    });
+    expect(plugin.requests.map((r) => r.method)).not.toContain(
+      "bulk_set_property",
+    );
+    expect(
+      plugin.dataModel.call("get_properties", {
+        path: "Workspace.Fireball.Core.Flames",
+        properties: ["Rate"],
+      }),
+    ).toEqual({ properties: { Rate: 50 } });
+  });
+
+  test("previews deletes, creates and tag changes", async () => {
+    const plugin = await connectPlugin();
+
+    const deleted = await call("delete_instance", {
+      path: "Workspace.Fireball.Core.Sparks",
+      dry_run: true,
+    });
+    expect(deleted.data.changes).toEqual([
+      {
+        target: "Workspace.Fireball.Core.Sparks",
+        kind: "delete",
+        before: { name: "Sparks", class: "ParticleEmitter" },
+        after: null,
+      },
+    ]);
+
+    const created = await call("create_instance", {
+      class_name: "Beam",
+      parent: "Workspace.Fireball",
+      dry_run: true,
+    });
+    expect(created.data.changes[0]).toMatchObject({
+      target: "Workspace.Fireball.Beam",
+      kind: "create",
+    });
+
+    const tagged = await call("add_tag", {
+      path: "Workspace.Fireball",
+      tag: "VFX",
+      dry_run: true,
+    });
+    expect(tagged.data.changes[0]).toMatchObject({ before: true, after: true });
+
+    expect(
+      plugin.dataModel.call("instance_exists", {
+        path: "Workspace.Fireball.Core.Sparks",
+      }),
+    ).toEqual({ exists: true });
+  });
+
+  test("fails when a target doesn't exist", async () => {
+    await connectPlugin();
+    const { isError, data } = await call("create_instance", {
+      class_name: "Beam",
+      parent: "Workspace.Missing",
+      dry_run: true,
+    });
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("NOT_FOUND");
+  });
+
+  test("is only accepted by mutating tools", async () => {
+    await connectPlugin();
+    const { data } = await call("get_children", {
+      path: "Workspace",
+      dry_run: true,
+    });
+    expect(data.error.code).toBe("INVALID_ARGUMENTS");
+  });
+});
+
+describe("transactions", () => {
+  const exists = (plugin: MockPlugin, path: string) =>
+    plugin.dataModel.exists(path);
+
+  test("groups changes into one transaction that undoes as a unit", async () => {
+    const plugin = await connectPlugin();
+    const begun = await call("begin_transaction", { name: "Add trail" });
+    await call("create_instance", {
+      class_name: "Beam",
+      parent: "Workspace.Fireball.Core",
+      name: "Trail",
+    });
+    await call("set_property", {
+      path: "Workspace.Fireball.Core.Flames",
+      property: "Rate",
+      value: 80,
+    });
+    const committed = await call("commit_transaction");
+    expect(committed.data).toMatchObject({
+      name: "Add trail",
+      status: "committed",
+      operations: ["create_instance", "set_property"],
+    });
+
+    const tagged = plugin.requests.filter((r) => r.transactionId);
+    expect(tagged.map((r) => r.method)).toEqual([
+      "create_instance",
+      "set_property",
+    ]);
+    expect(
+      tagged.every((r) => r.transactionId === begun.data.transaction_id),
+    ).toBe(true);
+
+    await call("undo");
+    expect(exists(plugin, "Workspace.Fireball.Core.Trail")).toBe(false);
+    expect(
+      plugin.dataModel.call("get_properties", {
+        path: "Workspace.Fireball.Core.Flames",
+        properties: ["Rate"],
+      }),
+    ).toEqual({ properties: { Rate: 50 } });
+
+    await call("redo");
+    expect(exists(plugin, "Workspace.Fireball.Core.Trail")).toBe(true);
+  });
+
+  test("undoes changes made outside a transaction one at a time", async () => {
+    const plugin = await connectPlugin();
+    await call("add_tag", { path: "Workspace.Fireball", tag: "Hot" });
+    await call("delete_instance", { path: "Workspace.Fireball.Core.Sparks" });
+
+    const undone = await call("undo");
+    expect(undone.data).toMatchObject({
+      name: "delete_instance",
+      explicit: false,
+      status: "undone",
+    });
+    expect(exists(plugin, "Workspace.Fireball.Core.Sparks")).toBe(true);
+
+    const { data } = await call("list_transactions");
+    expect(data.transactions.map((t: { name: string }) => t.name)).toEqual([
+      "delete_instance",
+      "add_tag",
+    ]);
+    expect(data.next_undo).toBe(data.transactions[1].transaction_id);
+    expect(data.next_redo).toBe(data.transactions[0].transaction_id);
+  });
+
+  test("rolls back an open transaction", async () => {
+    const plugin = await connectPlugin();
+    await call("begin_transaction", { name: "Cleanup" });
+    await call("bulk_delete", {
+      paths: [
+        "Workspace.Fireball.Core.Flames",
+        "Workspace.Fireball.Core.Sparks",
+      ],
+    });
+    const { data } = await call("rollback_transaction");
+
+    expect(data.status).toBe("rolled_back");
+    expect(exists(plugin, "Workspace.Fireball.Core.Flames")).toBe(true);
+    expect((await call("undo")).data.error.code).toBe("NOTHING_TO_UNDO");
+  });
+
+  test("refuses to undo or nest while a transaction is open", async () => {
+    await connectPlugin();
+    await call("add_tag", { path: "Workspace.Fireball", tag: "Hot" });
+    await call("begin_transaction", { name: "First" });
+
+    expect((await call("undo")).data.error.code).toBe("TRANSACTION_ACTIVE");
+    expect(
+      (await call("begin_transaction", { name: "Second" })).data.error.code,
+    ).toBe("TRANSACTION_ACTIVE");
+  });
+});
+
+describe("audit log", () => {
+  test("records changes with their outcome and finds them by path", async () => {
+    await connectPlugin();
+    await call("set_property", {
+      path: "Workspace.Fireball.Core.Flames",
+      property: "Rate",
+      value: 80,
+    });
+    await call("set_property", {
+      path: "Workspace.Fireball.Core.Flames",
+      property: "Enabled",
+      value: false,
+    });
+    await call("delete_instance", { path: "Workspace.Missing" });
+    await call("get_children", { path: "Workspace" });
+    await call("bulk_scale", {
+      paths: ["Workspace.Fireball"],
+      factor: 2,
+      dry_run: true,
+    });
+
+    const all = await call("get_audit_log");
+    expect(all.data.entries.map((e: { tool: string }) => e.tool)).toEqual([
+      "delete_instance",
+      "set_property",
+      "set_property",
+    ]);
+    expect(all.data.entries[0]).toMatchObject({
+      place_name: "MockPlace",
+      error: { code: "NOT_FOUND" },
+    });
+
+    const rate = await call("get_audit_log", {
+      path: "Workspace.Fireball.Core.Flames.Rate",
+    });
+    expect(rate.data.total).toBe(1);
+    expect(rate.data.entries[0]).toMatchObject({
+      args: { path: "Workspace.Fireball.Core.Flames", value: 80 },
+      result: { success: true, affected_count: 1 },
+    });
+  });
+
+  test("filters by time range and tool", async () => {
+    await connectPlugin();
+    await call("add_tag", { path: "Workspace.Fireball", tag: "Hot" });
+
+    const future = new Date(Date.now() + 60000).toISOString();
+    expect((await call("get_audit_log", { since: future })).data.total).toBe(0);
+    expect((await call("get_audit_log", { tool: "add_tag" })).data.total).toBe(
+      1,
+    );
+    expect(
+      (await call("get_audit_log", { since: "yesterday" })).data.error.code,
+    ).toBe("INVALID_ARGUMENTS");
+  });
+});
+
+describe("luau export", () => {
+  test("exports the session's changes without undone transactions", async () => {
+    await connectPlugin();
+    await call("create_instance", {
+      class_name: "Beam",
+      parent: "Workspace.Fireball",
+      name: "Trail",
+      properties: {
+        Color: {
+          _type: "ColorSequence",
+          keypoints: [
+            { time: 0, color: { r: 1, g: 0.5, b: 0 } },
+            { time: 1, color: { r: 1, g: 0, b: 0 } },
+          ],
+        },
+      },
+    });
+    await call("set_property", {
+      path: "Workspace.Fireball.Core.Flames",
+      property: "Rate",
+      value: 80,
+    });
+    await call("add_tag", { path: "Workspace.Fireball", tag: "Hot" });
+    await call("undo");
+    await call("set_selection", { paths: ["Workspace.Fireball"] });
+
+    const { data } = await call("export_luau_script");
+    expect(data).toMatchObject({ operations: 2, session: expect.any(String) });
+    expect(data.skipped).toEqual([
+      expect.objectContaining({ tool: "set_selection" }),
+    ]);
+    expect(data.script).toContain('Instance.new("Beam")');
+    expect(data.script).toContain(
+      "instance.Color = ColorSequence.new({ ColorSequenceKeypoint.new(0, Color3.new(1, 0.5, 0)), ColorSequenceKeypoint.new(1, Color3.new(1, 0, 0)) })",
+    );
+    expect(data.script).toContain(
+      'getInstance("Workspace.Fireball.Core.Flames").Rate = 80',
+    );
+    expect(data.script).not.toContain("AddTag");
+
+    const flames = await call("export_luau_script", {
+      path: "Workspace.Fireball.Core",
+    });
+    expect(flames.data.operations).toBe(1);
+  });
+});
+
+describe("workflows", () => {
+  test("binds results, loops over queries and skips unmet conditions", async () => {
+    await connectPlugin();
+    const { isError, data } = await call("run_workflow", {
+      steps: [
+        {
+          id: "rig",
+          tool: "create_instance",
+          args: {
+            class_name: "Folder",
+            parent: "Workspace.Fireball",
+            name: "Rig",
+          },
+        },
+        {
+          id: "emitters",
+          tool: "query_descendants",
+          args: { root: "Workspace.Fireball", selector: ">>ParticleEmitter" },
+        },
+        {
+          for_each: "${emitters.results}",
+          as: "emitter",
+          tool: "set_attribute",
+          args: {
+            path: "${emitter.path}",
+            attribute: "Rig",
+            value: "${rig.path}",
+          },
+        },
+        {
+          if: { value: "${emitters.total}", equals: 0 },
+          tool: "delete_instance",
+          args: { path: "${rig.path}" },
+        },
+      ],
+    });
+
+    expect(isError).toBe(false);
+    expect(data).toMatchObject({ success: true, calls: 4 });
+    expect(data.results.rig.path).toBe("Workspace.Fireball.Rig");
+    expect(data.steps.map((s: { step: string }) => s.step)).toEqual([
+      "0",
+      "1",
+      "2[0]",
+      "2[1]",
+      "3",
+    ]);
+    expect(data.steps[4].status).toBe("skipped");
+
+    const { data: attributes } = await call("get_attributes", {
+      path: "Workspace.Fireball.Core.Sparks",
+    });
+    expect(attributes.attributes.Rig.value).toBe("Workspace.Fireball.Rig");
+  });
+
+  test("stops at a failed step and rolls back its transaction", async () => {
+    await connectPlugin();
+    const { data } = await call("run_workflow", {
+      transaction: "Broken rig",
+      steps: [
+        {
+          tool: "create_instance",
+          args: { class_name: "Folder", parent: "Workspace", name: "Rig" },
+        },
+        { tool: "delete_instance", args: { path: "Workspace.Missing" } },
+        { tool: "get_children", args: { path: "Workspace" } },
+      ],
+    });
+
+    expect(data).toMatchObject({
+      success: false,
+      calls: 2,
+      error: { code: "NOT_FOUND" },
+      transaction_status: "rolled_back",
+    });
+    expect(
+      (await call("instance_exists", { path: "Workspace.Rig" })).data,
+    ).toMatchObject({ exists: false });
+  });
+
+  test("closes its transaction when the client cancels", async () => {
+    const plugin = await connectPlugin({ responseDelayMs: 50 });
+    const controller = new AbortController();
+    const run = client.callTool(
+      {
+        name: "run_workflow",
+        arguments: {
+          transaction: "Cancelled rig",
+          steps: [
+            {
+              tool: "create_instance",
+              args: { class_name: "Folder", parent: "Workspace", name: "Rig" },
+            },
+            { tool: "get_children", args: { path: "Workspace" } },
+          ],
+        },
+      },
+      undefined,
+      { signal: controller.signal },
+    );
+    await Bun.sleep(75);
+    controller.abort();
+    await expect(run).rejects.toThrow();
+
+    // The rollback still reaches the plugin after the cancel
+    await Bun.sleep(200);
+    expect(
+      plugin.requests.some((r) => r.method === "rollback_transaction"),
+    ).toBe(true);
+    const begun = await call("begin_transaction", { name: "Next" });
+    expect(begun.isError).toBe(false);
+  });
+
+  test("rejects unknown references", async () => {
+    await connectPlugin();
+    const { data } = await call("run_workflow", {
+      steps: [{ tool: "get_children", args: { path: "${nothing.path}" } }],
+    });
+    expect(data).toMatchObject({
+      success: false,
+      calls: 0,
+      error: { code: "INVALID_REFERENCE" },
+    });
+  });
+});
+
+describe("prompts", () => {
+  test("lists templates and renders them with arguments", async () => {
+    await mkdir(join(stateDir, "prompts"));
+    await writeFile(
+      join(stateDir, "prompts", "fire.md"),
+      '---\n{ "description": "Build fire", "arguments": [{ "name": "size", "enum": ["small", "large"], "required": true }] }\n---\nBuild a {{size}} fire.',
+    );
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts).toEqual([
+      {
+        name: "fire",
+        description: "Build fire",
+        arguments: [
+          {
+            name: "size",
+            description: "(one of small, large)",
+            required: true,
+          },
+        ],
+      },
+    ]);
+
+    const { messages } = await client.getPrompt({
+      name: "fire",
+      arguments: { size: "large" },
+    });
+    expect(messages).toEqual([
+      { role: "user", content: { type: "text", text: "Build a large fire." } },
+    ]);
+    await expect(
+      client.getPrompt({ name: "fire", arguments: { size: "huge" } }),
+    ).rejects.toThrow("must be one of small, large");
+  });
+});
+
+describe("instance resources", () => {
+  test("reads an instance's properties, attributes, tags and children", async () => {
+    await connectPlugin();
+    await call("add_tag", { path: "Workspace.Fireball.Core", tag: "Hot" });
+
+    const uri = "vfx-forge://instance/Workspace.Fireball.Core";
+    const { contents } = await client.readResource({ uri });
+    const info = JSON.parse((contents[0] as { text: string }).text);
+    expect(info).toMatchObject({
+      path: "Workspace.Fireball.Core",
+      class: "Part",
+      name: "Core",
+      parent: "Workspace.Fireball",
+      tags: ["Hot"],
+    });
+    expect(info.children.map((c: { name: string }) => c.name)).toEqual([
+      "Flames",
+      "Sparks",
+      "Glow",
+    ]);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates[0]!.uriTemplate).toBe(
+      "vfx-forge://instance/{path}",
+    );
+    await expect(
+      client.readResource({ uri: "vfx-forge://instance/Workspace.Missing" }),
+    ).rejects.toThrow("Instance not found");
+  });
+
+  test("notifies subscribers when the plugin reports changes", async () => {
+    await connectPlugin();
+    const updated: string[] = [];
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updated.push(notification.params.uri);
+      },
+    );
+    const core = "vfx-forge://instance/Workspace.Fireball.Core";
+    const baseplate = "vfx-forge://instance/Workspace.Baseplate";
+    await client.subscribeResource({ uri: core });
+    await client.subscribeResource({ uri: baseplate });
+
+    // A child's property change leaves the parent's listing unchanged, but
+    // the plugin can't tell, so the parent is refreshed too
+    await call("set_property", {
+      path: "Workspace.Fireball.Core.Flames",
+      property: "Rate",
+      value: 80,
+    });
+    await Bun.sleep(50);
+    expect(updated).toEqual([core]);
+
+    await client.unsubscribeResource({ uri: core });
+    await call("undo");
+    await Bun.sleep(50);
+    expect(updated).toEqual([core, baseplate]);
+  });
+});
+
+describe("metrics", () => {
+  test("counts tool calls and failures by code", async () => {
+    await connectPlugin();
+    await call("get_children", { path: "Workspace" });
+    await call("get_children", { path: "Workspace.Missing" });
+    await call("get_children", { path: 5 });
+
+    const text = bridge.metrics.render();
+    expect(text).toContain('vfx_forge_tool_calls_total{tool="get_children"} 3');
+    expect(text).toContain(
+      'vfx_forge_tool_errors_total{tool="get_children",code="NOT_FOUND"} 1',
+    );
+    expect(text).toContain(
+      'vfx_forge_tool_errors_total{tool="get_children",code="INVALID_ARGUMENTS"} 1',
+    );
+    expect(text).toMatch(
+      /vfx_forge_tool_result_bytes_total\{tool="get_children"\} [1-9]\d*/,
+    );
+  });
+});
+
+describe("server config", () => {
+  test("reports the settings in use with the token hidden", async () => {
+    await client.close();
+    const config = resolveConfig({
+      http: { enabled: true, token: "s3cret" },
+      limits: { queryResults: 1 },
+    });
+    const server = createMcpServer(bridge, () => null, { config });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { data } = await call("get_server_config");
+    expect(data.config.http).toEqual({ enabled: true, token: "(set)" });
+    expect(data.config.limits.queryResults).toBe(1);
+    expect(data.permissions.readOnly).toBe(false);
+
+    // Query tools default to the configured limit
+    await connectPlugin();
+    const { data: query } = await call("query_descendants", {
+      root: "Workspace.Fireball",
+      selector: ">>ParticleEmitter",
+    });
+    expect(query.results).toHaveLength(1);
+    expect(query.limited).toBe(true);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * MCP server setup
+ * Wires tool listing and tool calls to the plugin bridge. Shared by the stdio
+ * entry point and the test suite.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { PluginBridge } from "./bridge/connection.js";
+import { BridgeError } from "./bridge/errors.js";
+import { DEFAULT_CONFIG, type ServerConfig } from "./config.js";
+import {
+  getAvailableTools,
+  handleToolCall,
+  hasStructuredOutput,
+  isPluginTool,
+  type ServerContext,
+} from "./tools/index.js";
+import { createAuditLog, type AuditLog } from "./tools/audit-log.js";
+import {
+  createTransactionLog,
+  type TransactionLog,
+} from "./tools/transactions.js";
+import {
+  DEFAULT_PERMISSIONS,
+  type PermissionPolicy,
+} from "./tools/permissions.js";
+import type { PromptLibrary } from "./prompts/templates.js";
+import {
+  INSTANCE_RESOURCE_TEMPLATE,
+  isAffectedBy,
+  parseInstanceUri,
+  readInstanceResource,
+} from "./resources/instances.js";
+import type { RobloxDocsCache } from "./docs/roblox-docs.js";
+import {
+  InstanceChangedParamsSchema,
+  type ErrorInfo,
+} from "./types/messages.js";
+import { log } from "./logger.js";
+
+export const SERVER_NAME = "vfx-forge-mcp";
+export const SERVER_VERSION = "0.1.0";
+
+export interface McpServerOptions {
+  // Defaults to allowing everything
+  permissions?: PermissionPolicy;
+  // Defaults to an in-memory log
+  auditLog?: AuditLog;
+  // Prompt templates; the prompts capability is only advertised with one
+  prompts?: PromptLibrary;
+  // Shared by servers for clients working on the same places, so undo sees
+  // every client's changes. Defaults to a log of this server's own.
+  transactions?: TransactionLog;
+  // Shown by get_server_config and used for tool defaults
+  config?: ServerConfig;
+}
+
+/**
+ * Create an MCP server backed by the given bridge. Docs are looked up on
+ * every call since they finish loading after startup.
+ */
+export function createMcpServer(
+  bridge: PluginBridge,
+  getDocs: () => RobloxDocsCache | null,
+  options: McpServerOptions = {},
+): McpServer {
+  const permissions = options.permissions ?? DEFAULT_PERMISSIONS;
+  const auditLog = options.auditLog ?? createAuditLog(null);
+
+  const mcpServer = new McpServer(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { subscribe: true },
+        ...(options.prompts && { prompts: {} }),
+      },
+    },
+  );
+
+  const transactions = options.transactions ?? createTransactionLog();
+
+  // Docs are looked up per call since they finish loading after startup
+  const createContext = (): ServerContext => ({
+    bridge,
+    docs: getDocs(),
+    permissions,
+    transactions,
+    auditLog,
+    config: options.config ?? DEFAULT_CONFIG,
+  });
+
+  // Handle tool listing (plugin tools are gated on plugin capabilities)
+  mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: getAvailableTools(bridge, permissions) };
+  });
+
+  // Serve prompt templates, re-read from disk on each request
+  const prompts = options.prompts;
+  if (prompts) {
+    mcpServer.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: await prompts.list() };
+    });
+    mcpServer.server.setRequestHandler(
+      GetPromptRequestSchema,
+      async (request) => {
+        return prompts.get(request.params.name, request.params.arguments);
+      },
+    );
+  }
+
+  // Serve instances as resources, read with the same permission checks as
+  // the read tools
+  mcpServer.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: [] };
+  });
+  mcpServer.server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    async () => {
+      return { resourceTemplates: [INSTANCE_RESOURCE_TEMPLATE] };
+    },
+  );
+  mcpServer.server.setRequestHandler(
+    ReadResourceRequestSchema,
+    async (request, extra) => {
+      const context = createContext();
+      return readInstanceResource(request.params.uri, (name, args) =>
+        handleToolCall(context, name, args, { signal: extra.signal }),
+      );
+    },
+  );
+
+  // Resources the client asked to hear about, by URI
+  const subscriptions = new Map<string, string>();
+  mcpServer.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request) => {
+      const { uri } = request.params;
+      subscriptions.set(uri, parseInstanceUri(uri));
+      return {};
+    },
+  );
+  mcpServer.server.setRequestHandler(
+    UnsubscribeRequestSchema,
+    async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    },
+  );
+
+  const stopEvents = bridge.onEvent((event) => {
+    if (event.type !== "event" || event.method !== "instance_changed") return;
+    if (!mcpServer.isConnected() || subscriptions.size === 0) return;
+
+    const parsed = InstanceChangedParamsSchema.safeParse(event.params);
+    if (!parsed.success) {
+      log.warn(`[${SERVER_NAME}] Ignoring malformed instance_changed event`);
+      return;
+    }
+    const { paths } = parsed.data;
+    for (const [uri, path] of subscriptions) {
+      if (paths && !paths.some((changed) => isAffectedBy(path, changed))) {
+        continue;
+      }
+      mcpServer.server.sendResourceUpdated({ uri }).catch((error) => {
+        log.error(`[${SERVER_NAME}] Failed to send resource update:`, error);
+      });
+    }
+  });
+
+  // Re-advertise tools when the plugin connects, disconnects or upgrades
+  const stopCapabilities = bridge.onCapabilitiesChanged(() => {
+    if (mcpServer.isConnected()) {
+      mcpServer.sendToolListChanged();
+    }
+  });
+
+  // Servers come and go with HTTP sessions; the bridge outlives them
+  mcpServer.server.onclose = () => {
+    stopEvents();
+    stopCapabilities();
+  };
+
+  // Ask the user to approve a destructive call, when the client can show a form
+  const confirm = async (message: string, signal: AbortSignal) => {
+    const result = await mcpServer.server.elicitInput(
+      {
+        message,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: { type: "boolean", title: "Run this tool", default: true },
+          },
+          required: ["confirm"],
+        },
+      },
+      { signal },
+    );
+    return result.action === "accept" && result.content?.confirm === true;
+  };
+
+  // Handle tool calls
+  mcpServer.server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      const session = args?.session as string | undefined;
+      if (isPluginTool(name) && !bridge.isConnected(session)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: {
+                    code: "CONNECTION_LOST",
+                    message: session
+                      ? `No connected Studio session matches "${session}". Use list_sessions to see connected sessions.`
+                      : "VFX Forge plugin is not connected. Please ensure the plugin is running in Roblox Studio.",
+                  },
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        const context = createContext();
+        const canElicit =
+          mcpServer.server.getClientCapabilities()?.elicitation !== undefined;
+        const result = await handleToolCall(context, name, args ?? {}, {
+          signal: extra.signal,
+          confirm: canElicit
+            ? (message) => confirm(message, extra.signal)
+            : undefined,
+          onProgress:
+            progressToken !== undefined
+              ? (progress) => {
+                  extra
+                    .sendNotification({
+                      method: "notifications/progress",
+                      params: { progressToken, ...progress },
+                    })
+                    .catch((error) => {
+                      log.error(
+                        `[${SERVER_NAME}] Failed to send progress:`,
+                        error,
+                      );
+                    });
+                }
+              : undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          // Validated against the tool's outputSchema by handleToolCall
+          ...(hasStructuredOutput(name) && {
+            structuredContent: result as Record<string, unknown>,
+          }),
+        };
+      } catch (error) {
+        const errorInfo: ErrorInfo =
+          error instanceof BridgeError
+            ? error.toErrorInfo()
+            : {
+                code: "OPERATION_FAILED",
+                message: error instanceof Error ? error.message : String(error),
+              };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: errorInfo,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  return mcpServer;
+}
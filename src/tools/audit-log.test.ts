@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createAuditLog, type AuditEntry } from "./audit-log.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const entry = (tool: string, timestamp: string): AuditEntry => ({
+  timestamp,
+  session: "session-1",
+  place_name: "Arena",
+  tool,
+  args: { path: "Workspace.Fireball" },
+  result: { success: true },
+  duration_ms: 3,
+});
+
+test("appends to the file across restarts and skips damaged lines", async () => {
+  const path = join(dir, "logs", "audit.jsonl");
+  const first = createAuditLog(path);
+  first.append(entry("add_tag", "2026-01-01T10:00:00.000Z"));
+  first.close();
+  await appendFile(path, '{"timestamp": "2026-01-01T10:0');
+
+  const second = createAuditLog(path);
+  second.append(entry("remove_tag", "2026-01-02T10:00:00.000Z"));
+
+  const { entries } = second.query({ until: "2026-01-01T23:59:59Z" });
+  expect(entries.map((e) => e.tool)).toEqual(["add_tag"]);
+  expect(second.query({}).total).toBe(2);
+  second.close();
+
+  const lines = (await readFile(path, "utf8")).trim().split("\n");
+  expect(lines).toHaveLength(3);
+});
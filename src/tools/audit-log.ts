@@ -0,0 +1,184 @@
+/**
+ * Audit log
+ * Appends every mutating plugin tool call to a local JSONL file (timestamp,
+ * session, tool, arguments, result summary or error) and answers queries over
+ * it for the get_audit_log tool.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  writeSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { ErrorInfo } from "../types/messages.js";
+import { collectInstancePaths, isPathUnder } from "./permissions.js";
+import { log } from "../logger.js";
+
+export interface AuditEntry {
+  // ISO 8601
+  timestamp: string;
+  session: string | null;
+  place_name: string | null;
+  tool: string;
+  // Validated arguments, without `session`
+  args: Record<string, unknown>;
+  // Transaction the change was grouped into, for tools that change the place
+  transaction_id?: string;
+  result?: Record<string, unknown>;
+  error?: ErrorInfo;
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  // ISO 8601 bounds, inclusive
+  since?: string;
+  until?: string;
+  tool?: string;
+  // Instance path, or `path.Property` / `path.Attribute`; matches entries
+  // that touched it or anything under it
+  path?: string;
+  limit?: number;
+}
+
+export interface AuditLog {
+  // null when entries are only kept in memory
+  path: string | null;
+  append: (entry: AuditEntry) => void;
+  // Newest first
+  query: (query: AuditQuery) => {
+    entries: AuditEntry[];
+    total: number;
+    limited: boolean;
+  };
+  close: () => void;
+}
+
+const DEFAULT_LIMIT = 50;
+
+// Result fields worth keeping; full results can be large (bulk creation)
+const SUMMARY_FIELDS = [
+  "success",
+  "affected_count",
+  "path",
+  "class",
+  "transaction_id",
+  "name",
+  "status",
+];
+
+/**
+ * Reduce a tool result to the fields that describe its outcome
+ */
+export function summarizeResult(result: unknown): Record<string, unknown> {
+  if (!result || typeof result !== "object") {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(result).filter(
+      ([key, value]) =>
+        SUMMARY_FIELDS.includes(key) &&
+        (value === null || typeof value !== "object"),
+    ),
+  );
+}
+
+// Instances an entry touched, plus `path.Name` for property and attribute
+// changes so a single property's history can be looked up
+function targetsOf(entry: AuditEntry): string[] {
+  const paths = collectInstancePaths(entry.args);
+  const member = entry.args.property ?? entry.args.attribute;
+  return typeof member === "string"
+    ? [...paths, ...paths.map((path) => `${path}.${member}`)]
+    : paths;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (query.since && time < Date.parse(query.since)) return false;
+  if (query.until && time > Date.parse(query.until)) return false;
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.path) {
+    const path = query.path;
+    return targetsOf(entry).some((target) => isPathUnder(target, path));
+  }
+  return true;
+}
+
+/**
+ * Open the audit log at `path`, appending to any existing file, or keep
+ * entries in memory when `path` is null. Entries are written synchronously so
+ * none are lost if the server exits right after a call.
+ */
+export function createAuditLog(path: string | null): AuditLog {
+  const memory: AuditEntry[] = [];
+  let fd: number | null = null;
+
+  if (path) {
+    mkdirSync(dirname(path), { recursive: true });
+    fd = openSync(path, "a+", 0o600);
+    // Finish a line cut short by a crash so the next entry starts cleanly
+    const { size } = fstatSync(fd);
+    const last = Buffer.alloc(1);
+    if (size > 0 && readSync(fd, last, 0, 1, size - 1) && last[0] !== 0x0a) {
+      writeSync(fd, "\n");
+    }
+  }
+
+  function load(): AuditEntry[] {
+    if (!path) return memory;
+    if (!existsSync(path)) return [];
+    return readFileSync(path, "utf8")
+      .split("\n")
+      .flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          // A line cut short by a crash
+          return [];
+        }
+      });
+  }
+
+  return {
+    path,
+
+    append(entry) {
+      if (!path) {
+        memory.push(entry);
+        return;
+      }
+      if (fd === null) return;
+      try {
+        writeSync(fd, `${JSON.stringify(entry)}\n`);
+      } catch (error) {
+        log.error(`[Audit] Failed to write audit log ${path}:`, error);
+      }
+    },
+
+    query(query) {
+      const found = load()
+        .filter((entry) => matches(entry, query))
+        .reverse();
+      const limit = query.limit ?? DEFAULT_LIMIT;
+      return {
+        entries: found.slice(0, limit),
+        total: found.length,
+        limited: found.length > limit,
+      };
+    },
+
+    close() {
+      if (fd !== null) {
+        closeSync(fd);
+        fd = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,440 @@
+/**
+ * Dry-run previews for mutating tools
+ * Resolves a call's targets and reads their current values from the plugin,
+ * returning the changes the call would make without applying any of them.
+ */
+
+import type { z } from "zod";
+import { BridgeError } from "../bridge/errors.js";
+import {
+  AttributesResultSchema,
+  CollidableResultSchema,
+  ExistsResultSchema,
+  PropertyResultSchema,
+  SelectionResultSchema,
+  TagsResultSchema,
+  type ChangePreview,
+  type OperationResult,
+  type SerializedValue,
+  type Vector3Value,
+} from "../types/messages.js";
+
+/**
+ * Calls a read-only plugin method and validates its result
+ */
+export type PluginReader = <T extends z.ZodTypeAny>(
+  method: string,
+  params: Record<string, unknown>,
+  schema: T,
+) => Promise<z.infer<T>>;
+
+type Preview = (
+  read: PluginReader,
+  args: Record<string, unknown>,
+) => Promise<ChangePreview[]>;
+
+interface InstanceSpec {
+  class_name: string;
+  parent: string;
+  name?: string;
+  properties?: Record<string, SerializedValue>;
+  attributes?: Record<string, SerializedValue>;
+}
+
+function parentOf(path: string): string {
+  return path.slice(0, Math.max(0, path.lastIndexOf(".")));
+}
+
+function nameOf(path: string): string {
+  return path.slice(path.lastIndexOf(".") + 1);
+}
+
+async function requireInstance(read: PluginReader, path: string) {
+  const { exists } = await read(
+    "instance_exists",
+    { path },
+    ExistsResultSchema,
+  );
+  if (!exists) {
+    throw new BridgeError("NOT_FOUND", `Instance not found: ${path}`);
+  }
+}
+
+// null when the property can't be read (e.g. not set on a mock instance)
+async function readProperty(
+  read: PluginReader,
+  path: string,
+  property: string,
+): Promise<unknown> {
+  try {
+    const { properties } = await read(
+      "get_properties",
+      { path, properties: [property] },
+      PropertyResultSchema,
+    );
+    return properties[property] ?? null;
+  } catch (error) {
+    if (error instanceof BridgeError && error.code === "PROPERTY_NOT_FOUND") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readAttribute(
+  read: PluginReader,
+  path: string,
+  attribute: string,
+): Promise<unknown> {
+  const { attributes } = await read(
+    "get_attributes",
+    { path },
+    AttributesResultSchema,
+  );
+  return attributes[attribute]?.value ?? null;
+}
+
+async function hasTag(
+  read: PluginReader,
+  path: string,
+  tag: string,
+): Promise<boolean> {
+  const { tags } = await read("get_tags", { path }, TagsResultSchema);
+  return tags.includes(tag);
+}
+
+// There is no method to list collision groups; a group collides with itself
+// unless configured otherwise, and asking about a missing group fails
+async function groupExists(read: PluginReader, name: string) {
+  try {
+    await read(
+      "get_collision_group_collidable",
+      { group1: name, group2: name },
+      CollidableResultSchema,
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof BridgeError && error.code === "NOT_FOUND") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function isVector3(value: unknown): value is Vector3Value {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { _type?: unknown })._type === "Vector3"
+  );
+}
+
+async function previewDelete(
+  read: PluginReader,
+  path: string,
+): Promise<ChangePreview> {
+  const { properties } = await read(
+    "get_properties",
+    { path, properties: ["Name", "ClassName"] },
+    PropertyResultSchema,
+  );
+  return {
+    target: path,
+    kind: "delete",
+    before: { name: properties.Name, class: properties.ClassName },
+    after: null,
+  };
+}
+
+async function previewCreate(
+  read: PluginReader,
+  spec: InstanceSpec,
+): Promise<ChangePreview> {
+  await requireInstance(read, spec.parent);
+  return {
+    target: `${spec.parent}.${spec.name ?? spec.class_name}`,
+    kind: "create",
+    before: null,
+    after: {
+      class: spec.class_name,
+      properties: spec.properties ?? {},
+      attributes: spec.attributes ?? {},
+    },
+  };
+}
+
+async function previewClone(
+  read: PluginReader,
+  source: string,
+  parent: string | undefined,
+  name: string,
+): Promise<ChangePreview> {
+  await requireInstance(read, source);
+  if (parent) await requireInstance(read, parent);
+  return {
+    target: `${parent ?? parentOf(source)}.${name}`,
+    kind: "clone",
+    before: null,
+    after: { source },
+  };
+}
+
+const previewSetProperty =
+  (paths: (args: Record<string, unknown>) => string[]): Preview =>
+  async (read, args) => {
+    const property = args.property as string;
+    return Promise.all(
+      paths(args).map(async (path) => ({
+        target: path,
+        kind: "property" as const,
+        name: property,
+        before: await readProperty(read, path, property),
+        after: args.value,
+      })),
+    );
+  };
+
+const previewSetAttribute =
+  (paths: (args: Record<string, unknown>) => string[]): Preview =>
+  async (read, args) => {
+    const attribute = args.attribute as string;
+    return Promise.all(
+      paths(args).map(async (path) => ({
+        target: path,
+        kind: "attribute" as const,
+        name: attribute,
+        before: await readAttribute(read, path, attribute),
+        after: args.value,
+      })),
+    );
+  };
+
+const previewDeletes =
+  (paths: (args: Record<string, unknown>) => string[]): Preview =>
+  (read, args) =>
+    Promise.all(paths(args).map((path) => previewDelete(read, path)));
+
+const single = (args: Record<string, unknown>) => [args.path as string];
+const many = (args: Record<string, unknown>) => args.paths as string[];
+
+const PREVIEWS: Record<string, Preview> = {
+  set_property: previewSetProperty(single),
+  bulk_set_property: previewSetProperty(many),
+  set_attribute: previewSetAttribute(single),
+  bulk_set_attribute: previewSetAttribute(many),
+
+  delete_attribute: async (read, args) => {
+    const path = args.path as string;
+    const attribute = args.attribute as string;
+    return [
+      {
+        target: path,
+        kind: "attribute",
+        name: attribute,
+        before: await readAttribute(read, path, attribute),
+        after: null,
+      },
+    ];
+  },
+
+  add_tag: async (read, args) => [
+    {
+      target: args.path as string,
+      kind: "tag",
+      name: args.tag as string,
+      before: await hasTag(read, args.path as string, args.tag as string),
+      after: true,
+    },
+  ],
+
+  remove_tag: async (read, args) => [
+    {
+      target: args.path as string,
+      kind: "tag",
+      name: args.tag as string,
+      before: await hasTag(read, args.path as string, args.tag as string),
+      after: false,
+    },
+  ],
+
+  set_selection: async (read, args) => {
+    const paths = args.paths as string[];
+    await Promise.all(paths.map((path) => requireInstance(read, path)));
+    const { selection } = await read(
+      "get_selection",
+      {},
+      SelectionResultSchema,
+    );
+    return [
+      {
+        target: "Selection",
+        kind: "selection",
+        before: selection,
+        after: paths,
+      },
+    ];
+  },
+
+  create_collision_group: async (read, args) => {
+    const name = args.name as string;
+    if (await groupExists(read, name)) {
+      throw new BridgeError(
+        "ALREADY_EXISTS",
+        `Collision group already exists: ${name}`,
+      );
+    }
+    return [
+      { target: name, kind: "collision_group", before: false, after: true },
+    ];
+  },
+
+  delete_collision_group: async (read, args) => {
+    const name = args.name as string;
+    if (!(await groupExists(read, name))) {
+      throw new BridgeError("NOT_FOUND", `Collision group not found: ${name}`);
+    }
+    return [
+      { target: name, kind: "collision_group", before: true, after: false },
+    ];
+  },
+
+  set_collision_group_collidable: async (read, args) => {
+    const { group1, group2 } = args as { group1: string; group2: string };
+    const { collidable } = await read(
+      "get_collision_group_collidable",
+      { group1, group2 },
+      CollidableResultSchema,
+    );
+    return [
+      {
+        target: `${group1}/${group2}`,
+        kind: "collidable",
+        before: collidable,
+        after: args.collidable,
+      },
+    ];
+  },
+
+  set_part_collision_group: async (read, args) => {
+    const group = args.group as string;
+    if (!(await groupExists(read, group))) {
+      throw new BridgeError("NOT_FOUND", `Collision group not found: ${group}`);
+    }
+    return previewSetProperty(many)(read, {
+      paths: args.paths,
+      property: "CollisionGroup",
+      value: group,
+    });
+  },
+
+  create_instance: async (read, args) => [
+    await previewCreate(read, args as unknown as InstanceSpec),
+  ],
+
+  bulk_create_instances: (read, args) =>
+    Promise.all(
+      (args.instances as InstanceSpec[]).map((spec) =>
+        previewCreate(read, spec),
+      ),
+    ),
+
+  clone_instance: async (read, args) => {
+    const source = args.source as string;
+    return [
+      await previewClone(
+        read,
+        source,
+        args.parent as string | undefined,
+        (args.name as string | undefined) ?? nameOf(source),
+      ),
+    ];
+  },
+
+  bulk_clone_instances: (read, args) =>
+    Promise.all(
+      (args.sources as string[]).map((source) =>
+        previewClone(
+          read,
+          source,
+          args.parent as string | undefined,
+          `${nameOf(source)}${(args.name_suffix as string | undefined) ?? ""}`,
+        ),
+      ),
+    ),
+
+  delete_instance: previewDeletes(single),
+  delete_instances: previewDeletes(many),
+  bulk_delete: previewDeletes(many),
+
+  // Parts report their new Size; anything else is reported as a scale change
+  // that its descendants follow. A model's current scale can't be read with
+  // get_properties, so only the factor is reported.
+  bulk_scale: (read, args) => {
+    const factor = args.factor as number;
+    return Promise.all(
+      many(args).map(async (path): Promise<ChangePreview> => {
+        const size = await readProperty(read, path, "Size");
+        if (isVector3(size)) {
+          return {
+            target: path,
+            kind: "property",
+            name: "Size",
+            before: size,
+            after: {
+              ...size,
+              x: size.x * factor,
+              y: size.y * factor,
+              z: size.z * factor,
+            },
+          };
+        }
+        await requireInstance(read, path);
+        return { target: path, kind: "scale", after: factor };
+      }),
+    );
+  },
+
+  bulk_pivot_to: (read, args) =>
+    Promise.all(
+      (args.operations as Array<{ path: string; cframe: unknown }>).map(
+        async ({ path, cframe }): Promise<ChangePreview> => {
+          await requireInstance(read, path);
+          return {
+            target: path,
+            kind: "property",
+            name: "WorldPivot",
+            before: await readProperty(read, path, "WorldPivot"),
+            after: cframe,
+          };
+        },
+      ),
+    ),
+};
+
+/**
+ * Check if a tool can be previewed with dry_run
+ */
+export function hasPreview(toolName: string): boolean {
+  return toolName in PREVIEWS;
+}
+
+/**
+ * Work out what a mutating tool call would change, using only read methods
+ */
+export async function previewChanges(
+  toolName: string,
+  args: Record<string, unknown>,
+  read: PluginReader,
+): Promise<OperationResult> {
+  const preview = PREVIEWS[toolName];
+  if (!preview) {
+    throw new Error(`Tool "${toolName}" does not support dry_run`);
+  }
+  const changes = await preview(read, args);
+  return {
+    success: true,
+    dry_run: true,
+    affected_count: new Set(changes.map((change) => change.target)).size,
+    changes,
+  };
+}
@@ -3,9 +3,39 @@
  * Defines all available tools for the MCP server
  */
 
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
-import type { PluginBridge } from "../bridge/connection.js";
+import type { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { z, type ZodIssue } from "zod";
+import { ignoreOverride, zodToJsonSchema } from "zod-to-json-schema";
+import type {
+  PluginBridge,
+  RequestProgress,
+  SessionInfo,
+} from "../bridge/connection.js";
+import { BridgeError } from "../bridge/errors.js";
+import { getMethodPolicy } from "../bridge/policies.js";
+import {
+  summarizeResult,
+  type AuditEntry,
+  type AuditLog,
+} from "./audit-log.js";
+import { hasPreview, previewChanges } from "./dry-run.js";
+import { exportLuauScript } from "./luau-export.js";
+import {
+  NestedStepsSchema,
+  WorkflowStepSchema,
+  runWorkflow,
+  type WorkflowResult,
+} from "./workflow.js";
+import type { Transaction, TransactionLog } from "./transactions.js";
+import type { ServerConfig } from "../config.js";
 import type { RobloxDocsCache } from "../docs/roblox-docs.js";
+import {
+  checkPermission,
+  DEFAULT_PERMISSIONS,
+  getToolDenial,
+  needsConfirmation,
+  type PermissionPolicy,
+} from "./permissions.js";
 import {
   getClassDocs,
   getPropertyDocs,
@@ -25,23 +55,101 @@ import {
   getDataTypeFormat,
   getAvailableDataTypes,
 } from "../docs/serialization-formats.js";
+import {
+  AttributesResultSchema,
+  CFrameValueSchema,
+  CollidableResultSchema,
+  ExistsResultSchema,
+  OperationResultSchema,
+  PropertyResultSchema,
+  QueryResultSchema,
+  SelectionResultSchema,
+  SerializedValueSchema,
+  TagsResultSchema,
+} from "../types/messages.js";
 
 export interface ServerContext {
   bridge: PluginBridge;
+  config: ServerConfig;
   docs: RobloxDocsCache | null;
+  permissions: PermissionPolicy;
+  transactions: TransactionLog;
+  auditLog: AuditLog;
 }
 
+/**
+ * Per-call hooks supplied by the MCP request being served
+ */
+export interface ToolCallOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: RequestProgress) => void;
+  // Ask the user to approve a call; resolves false if they decline
+  confirm?: (message: string) => Promise<boolean>;
+  // Set by handleToolCall for changes grouped into a transaction
+  transactionId?: string;
+}
+
+type ToolSchema = z.ZodObject<z.ZodRawShape, "strict">;
+type ResultSchema = z.ZodObject<z.ZodRawShape, "passthrough">;
+
 interface ToolDefinition {
   tool: Tool;
+  // Validates arguments; also the source of the advertised inputSchema
+  schema: ToolSchema;
+  // Set for tools that return structuredContent
+  outputSchema?: ResultSchema;
   handler: (
     context: ServerContext,
     args: Record<string, unknown>,
+    options: ToolCallOptions,
   ) => Promise<unknown>;
   requiresPlugin: boolean;
+  // Calls change the place and are grouped into transactions
+  transactional: boolean;
+  group: ToolGroup;
 }
 
+// Groups follow the sections of registerTools and can be turned off in the
+// server config
+export const TOOL_GROUPS = [
+  "exploration",
+  "properties",
+  "tags",
+  "selection",
+  "collision_groups",
+  "creation",
+  "bulk",
+  "transactions",
+  "audit",
+  "workflows",
+  "docs",
+  "connection",
+] as const;
+
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
 const tools = new Map<string, ToolDefinition>();
 
+// Group of the tools being defined, set at the start of each section
+let currentGroup: ToolGroup = "exploration";
+
+/**
+ * Check if a tool is registered, whether or not it can be called right now
+ */
+export function isKnownTool(name: string): boolean {
+  return tools.has(name);
+}
+
+/**
+ * Tools outside the given groups (null = every group is enabled)
+ */
+export function getToolsOutsideGroups(groups: ToolGroup[] | null): string[] {
+  if (!groups) return [];
+  return Array.from(tools.entries())
+    .filter(([, def]) => !groups.includes(def.group))
+    .map(([name]) => name);
+}
+
 /**
  * Check if a tool requires plugin connection
  */
@@ -49,6 +157,31 @@ export function isPluginTool(name: string): boolean {
   return tools.get(name)?.requiresPlugin ?? false;
 }
 
+/**
+ * Check if a tool declares an outputSchema and returns structuredContent
+ */
+export function hasStructuredOutput(name: string): boolean {
+  return tools.get(name)?.outputSchema !== undefined;
+}
+
+/**
+ * Get tools that can currently be called. Plugin tools are only listed when a
+ * connected plugin advertises support for them, and tools the permission
+ * policy refuses are never listed.
+ */
+export function getAvailableTools(
+  bridge: PluginBridge,
+  permissions: PermissionPolicy = DEFAULT_PERMISSIONS,
+): Tool[] {
+  return Array.from(tools.entries())
+    .filter(([name, def]) => !def.requiresPlugin || bridge.supportsMethod(name))
+    .filter(
+      ([, def]) =>
+        getToolDenial(permissions, def.tool, def.requiresPlugin) === null,
+    )
+    .map(([, def]) => def.tool);
+}
+
 /**
  * Require docs to be loaded, throwing if not available
  */
@@ -59,40 +192,256 @@ function requireDocs(context: ServerContext): RobloxDocsCache {
   return context.docs;
 }
 
+// Schemas advertised with a simpler JSON Schema than they validate against,
+// so the full value union isn't repeated in every tool definition
+const advertisedSchemas = new WeakMap<z.ZodTypeDef, Record<string, unknown>>();
+
+function advertiseAs<T extends z.ZodTypeAny>(
+  schema: T,
+  jsonSchema: Record<string, unknown>,
+): T {
+  advertisedSchemas.set(schema._def, {
+    ...jsonSchema,
+    description: schema.description,
+  });
+  return schema;
+}
+
+function toJsonSchema(schema: ToolSchema | ResultSchema): Tool["inputSchema"] {
+  const { $schema: _, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+    override: (def) => advertisedSchemas.get(def) ?? ignoreOverride,
+  }) as Record<string, unknown>;
+  return jsonSchema as Tool["inputSchema"];
+}
+
+const SESSION_FIELD = z
+  .string()
+  .optional()
+  .describe(
+    "Target Studio session (id, place name or place id). Defaults to the active session.",
+  );
+
+const DRY_RUN_FIELD = z
+  .boolean()
+  .optional()
+  .describe(
+    "Preview the changes as a per-instance before/after diff without applying them",
+  );
+
+/**
+ * Send a request to the plugin and check its result against `schema`
+ */
+async function callPlugin<T extends z.ZodTypeAny>(
+  context: ServerContext,
+  method: string,
+  params: Record<string, unknown>,
+  schema: T,
+  options: ToolCallOptions & { session?: string },
+): Promise<z.infer<T>> {
+  const response = await context.bridge.sendRequest(method, params, {
+    session: options.session,
+    signal: options.signal,
+    onProgress: options.onProgress,
+    transactionId: options.transactionId,
+  });
+  if (response.error) {
+    throw new BridgeError(
+      response.error.code,
+      response.error.message,
+      response.error.details,
+    );
+  }
+
+  const result = schema.safeParse(response.result);
+  if (!result.success) {
+    throw new BridgeError(
+      "PROTOCOL_ERROR",
+      `Plugin returned an unexpected result for ${method}`,
+      { issues: result.error.issues },
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Define a tool that forwards to the plugin method of the same name. Read-only
+ * and idempotent hints follow the method's request policy. Mutating tools
+ * accept `dry_run`.
+ */
 function definePluginTool(
   name: string,
   description: string,
-  inputSchema: Tool["inputSchema"],
+  shape: z.ZodRawShape,
+  outputSchema: ResultSchema,
+  { destructive = false }: { destructive?: boolean } = {},
 ): void {
+  const policy = getMethodPolicy(name);
+  const supportsDryRun = policy.mutating && hasPreview(name);
+  const schema = z
+    .object({
+      ...shape,
+      ...(supportsDryRun && { dry_run: DRY_RUN_FIELD }),
+      session: SESSION_FIELD,
+    })
+    .strict();
   tools.set(name, {
-    tool: { name, description, inputSchema },
-    handler: async (context, args) => {
-      const response = await context.bridge.sendRequest(name, args);
-      if (response.error) {
-        throw new Error(`${response.error.code}: ${response.error.message}`);
+    tool: {
+      name,
+      description,
+      inputSchema: toJsonSchema(schema),
+      outputSchema: toJsonSchema(outputSchema),
+      annotations: {
+        readOnlyHint: !policy.mutating,
+        destructiveHint: policy.mutating && destructive,
+        idempotentHint: policy.retrySafe,
+      },
+    },
+    schema,
+    outputSchema,
+    handler: async (context, args, options) => {
+      const { session, dry_run, ...params } = args;
+
+      if (dry_run === true) {
+        return previewChanges(name, params, (method, readParams, readSchema) =>
+          callPlugin(context, method, readParams, readSchema, {
+            session: session as string | undefined,
+            signal: options.signal,
+          }),
+        );
       }
-      return response.result;
+      return callPlugin(context, name, params, outputSchema, {
+        ...options,
+        session: session as string | undefined,
+      });
     },
     requiresPlugin: true,
+    transactional: policy.mutating,
+    group: currentGroup,
   });
 }
 
-function defineLocalTool(
+/**
+ * Define a tool backed by a plugin method that needs server-side handling
+ * rather than forwarding its arguments as-is. Listed only when the plugin
+ * supports the method of the same name.
+ */
+function definePluginCommand<Shape extends z.ZodRawShape>(
   name: string,
   description: string,
-  inputSchema: Tool["inputSchema"],
+  shape: Shape,
   handler: (
     context: ServerContext,
-    args: Record<string, unknown>,
+    args: z.infer<z.ZodObject<Shape>> & { session?: string },
+    options: ToolCallOptions,
+  ) => Promise<unknown>,
+  annotations: ToolAnnotations,
+): void {
+  const schema = z.object({ ...shape, session: SESSION_FIELD }).strict();
+  tools.set(name, {
+    tool: {
+      name,
+      description,
+      inputSchema: toJsonSchema(schema),
+      annotations,
+    },
+    schema,
+    handler: (context, args, options) =>
+      handler(
+        context,
+        args as z.infer<z.ZodObject<Shape>> & { session?: string },
+        options,
+      ),
+    requiresPlugin: true,
+    transactional: false,
+    group: currentGroup,
+  });
+}
+
+/**
+ * Define a tool handled by the server itself. Local tools are read-only unless
+ * annotated otherwise.
+ */
+function defineLocalTool<Shape extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  shape: Shape,
+  handler: (
+    context: ServerContext,
+    args: z.infer<z.ZodObject<Shape>>,
+    options: ToolCallOptions,
   ) => Promise<unknown>,
+  annotations: ToolAnnotations = { readOnlyHint: true },
 ): void {
+  const schema = z.object(shape).strict();
   tools.set(name, {
-    tool: { name, description, inputSchema },
-    handler,
+    tool: {
+      name,
+      description,
+      inputSchema: toJsonSchema(schema),
+      annotations,
+    },
+    schema,
+    handler: (context, args, options) =>
+      handler(context, args as z.infer<z.ZodObject<Shape>>, options),
     requiresPlugin: false,
+    transactional: false,
+    group: currentGroup,
+  });
+}
+
+// Union failures are reported through the alternative that got furthest,
+// e.g. the Color3 variant for { _type: "Color3", r: "red" }
+function flattenIssues(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code !== "invalid_union") return [issue];
+    const depth = (error: z.ZodError) =>
+      Math.max(...error.issues.map((inner) => inner.path.length));
+    const closest = issue.unionErrors.reduce((best, error) =>
+      depth(error) > depth(best) ? error : best,
+    );
+    return depth(closest) > issue.path.length
+      ? flattenIssues(closest.issues)
+      : [issue];
   });
 }
 
+/**
+ * Check arguments against a tool's schema, throwing INVALID_ARGUMENTS with
+ * one entry per bad field
+ */
+function validateArguments(
+  toolName: string,
+  schema: ToolSchema,
+  args: Record<string, unknown>,
+): Record<string, unknown> {
+  const parsed = schema.safeParse(args);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const fields = flattenIssues(parsed.error.issues).flatMap((issue) =>
+    issue.code === "unrecognized_keys"
+      ? issue.keys.map((key) => ({
+          field: [...issue.path, key].join("."),
+          message: "Unknown argument",
+        }))
+      : [
+          {
+            field: issue.path.join(".") || "(arguments)",
+            message: issue.message,
+          },
+        ],
+  );
+  throw new BridgeError(
+    "INVALID_ARGUMENTS",
+    `Invalid arguments for ${toolName}: ${fields
+      .map((f) => `${f.field}: ${f.message}`)
+      .join("; ")}`,
+    { fields },
+  );
+}
+
 // Type hints for property values
 const PROPERTY_TYPE_ENUM = [
   "string",
@@ -112,7 +461,7 @@ const PROPERTY_TYPE_ENUM = [
   "BrickColor",
   "Enum",
   "Instance",
-];
+] as const;
 
 // Type hints for attribute values
 const ATTRIBUTE_TYPE_ENUM = [
@@ -131,466 +480,836 @@ const ATTRIBUTE_TYPE_ENUM = [
   "Rect",
   "Font",
   "BrickColor",
-];
+] as const;
 
 const VALUE_TYPE_HINT =
   "For complex types, use object with _type field. Use get_datatype_format tool for format.";
 
-export function registerTools(): Tool[] {
+// Fields shared by many tools
+const instancePath = z.string().describe("Instance path");
+const instancePaths = z.array(z.string()).describe("Instance paths");
+const value = advertiseAs(
+  SerializedValueSchema.describe("Value (use _type for complex types)"),
+  {},
+);
+const valueMap = (description: string) =>
+  advertiseAs(
+    z.record(SerializedValueSchema).optional().describe(description),
+    {
+      type: "object",
+    },
+  );
+const resultLimit = z
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe("Max results (default: 100 unless configured)");
+
+// Nested workflow steps are listed as plain objects so the schema isn't
+// recursive
+advertiseAs(NestedStepsSchema, { type: "array", items: { type: "object" } });
+
+function requireSessionId(context: ServerContext, session?: string): string {
+  const sessionId = context.bridge.resolveSessionId(session);
+  if (!sessionId) {
+    throw new BridgeError(
+      "CONNECTION_LOST",
+      session ? `Unknown session: ${session}` : "No Studio session is active",
+    );
+  }
+  return sessionId;
+}
+
+function requireOpenTransaction(
+  context: ServerContext,
+  sessionId: string,
+): Transaction {
+  const transaction = context.transactions.getOpen(sessionId);
+  if (!transaction) {
+    throw new BridgeError("NO_TRANSACTION", "No transaction is open");
+  }
+  return transaction;
+}
+
+// Undo and redo step over whole waypoints, which an open one isn't yet
+function requireNoOpenTransaction(context: ServerContext, sessionId: string) {
+  const open = context.transactions.getOpen(sessionId);
+  if (open) {
+    throw new BridgeError(
+      "TRANSACTION_ACTIVE",
+      `Transaction "${open.name}" is still open. Commit or roll it back first.`,
+      { transactionId: open.id },
+    );
+  }
+}
+
+function describeTransaction(transaction: Transaction) {
+  return {
+    transaction_id: transaction.id,
+    name: transaction.name,
+    status: transaction.status,
+    explicit: transaction.explicit,
+    operations: transaction.operations,
+    started_at: new Date(transaction.startedAt).toISOString(),
+    finished_at: transaction.finishedAt
+      ? new Date(transaction.finishedAt).toISOString()
+      : null,
+  };
+}
+
+function registerTools(): void {
   // ============================================
   // Instance Exploration Tools
   // ============================================
+  currentGroup = "exploration";
 
   definePluginTool(
     "query_descendants",
     "Query descendants using selector pattern. Supports class filter and name patterns.",
     {
-      type: "object",
-      properties: {
-        root: {
-          type: "string",
-          description: "Root instance path (default: Workspace)",
-        },
-        selector: {
-          type: "string",
-          description: "Selector: ClassName, >Child, >>Descendant, [attr=val]",
-        },
-        limit: {
-          type: "number",
-          description: "Max results (default: 100)",
-        },
-      },
-      required: ["selector"],
+      root: z
+        .string()
+        .optional()
+        .describe("Root instance path (default: Workspace)"),
+      selector: z
+        .string()
+        .min(1)
+        .describe("Selector: ClassName, >Child, >>Descendant, [attr=val]"),
+      limit: resultLimit,
     },
+    QueryResultSchema,
   );
 
-  definePluginTool("get_children", "Get immediate children of an instance.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
-      class_filter: {
-        type: "string",
-        description: "Optional class name filter",
-      },
+  definePluginTool(
+    "get_children",
+    "Get immediate children of an instance.",
+    {
+      path: instancePath,
+      class_filter: z
+        .string()
+        .optional()
+        .describe("Optional class name filter"),
     },
-    required: ["path"],
-  });
+    QueryResultSchema,
+  );
 
-  definePluginTool("instance_exists", "Check if an instance exists.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
+  definePluginTool(
+    "instance_exists",
+    "Check if an instance exists.",
+    {
+      path: instancePath,
     },
-    required: ["path"],
-  });
+    ExistsResultSchema,
+  );
 
   // ============================================
   // Property & Attribute Tools
   // ============================================
+  currentGroup = "properties";
 
   definePluginTool(
     "get_properties",
     "Get property values. If no properties specified, returns all readable properties.",
     {
-      type: "object",
-      properties: {
-        path: { type: "string", description: "Instance path" },
-        properties: {
-          type: "array",
-          items: { type: "string" },
-          description: "Property names to get (optional)",
-        },
-      },
-      required: ["path"],
+      path: instancePath,
+      properties: z
+        .array(z.string())
+        .optional()
+        .describe("Property names to get (optional)"),
     },
+    PropertyResultSchema,
   );
 
-  definePluginTool("set_property", `Set a property. ${VALUE_TYPE_HINT}`, {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
-      property: { type: "string", description: "Property name" },
-      value: { description: "Value (use _type for complex types)" },
-      value_type: {
-        type: "string",
-        enum: PROPERTY_TYPE_ENUM,
-        description: "Type hint (optional if value has _type)",
-      },
+  definePluginTool(
+    "set_property",
+    `Set a property. ${VALUE_TYPE_HINT}`,
+    {
+      path: instancePath,
+      property: z.string().describe("Property name"),
+      value,
+      value_type: z
+        .enum(PROPERTY_TYPE_ENUM)
+        .optional()
+        .describe("Type hint (optional if value has _type)"),
     },
-    required: ["path", "property", "value"],
-  });
+    OperationResultSchema,
+  );
 
-  definePluginTool("get_attributes", "Get all attributes of an instance.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
+  definePluginTool(
+    "get_attributes",
+    "Get all attributes of an instance.",
+    {
+      path: instancePath,
     },
-    required: ["path"],
-  });
+    AttributesResultSchema,
+  );
 
-  definePluginTool("set_attribute", `Set an attribute. ${VALUE_TYPE_HINT}`, {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
-      attribute: { type: "string", description: "Attribute name" },
-      value: { description: "Value (use _type for complex types)" },
-      value_type: {
-        type: "string",
-        enum: ATTRIBUTE_TYPE_ENUM,
-        description: "Type hint (optional if value has _type)",
-      },
+  definePluginTool(
+    "set_attribute",
+    `Set an attribute. ${VALUE_TYPE_HINT}`,
+    {
+      path: instancePath,
+      attribute: z.string().describe("Attribute name"),
+      value,
+      value_type: z
+        .enum(ATTRIBUTE_TYPE_ENUM)
+        .optional()
+        .describe("Type hint (optional if value has _type)"),
     },
-    required: ["path", "attribute", "value"],
-  });
+    OperationResultSchema,
+  );
 
-  definePluginTool("delete_attribute", "Delete an attribute.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
-      attribute: { type: "string", description: "Attribute name" },
+  definePluginTool(
+    "delete_attribute",
+    "Delete an attribute.",
+    {
+      path: instancePath,
+      attribute: z.string().describe("Attribute name"),
     },
-    required: ["path", "attribute"],
-  });
+    OperationResultSchema,
+    { destructive: true },
+  );
 
   // ============================================
   // Tag Tools
   // ============================================
+  currentGroup = "tags";
 
-  definePluginTool("get_tags", "Get all tags from an instance.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
+  definePluginTool(
+    "get_tags",
+    "Get all tags from an instance.",
+    {
+      path: instancePath,
     },
-    required: ["path"],
-  });
+    TagsResultSchema,
+  );
 
-  definePluginTool("add_tag", "Add a tag to an instance.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
-      tag: { type: "string", description: "Tag name" },
+  definePluginTool(
+    "add_tag",
+    "Add a tag to an instance.",
+    {
+      path: instancePath,
+      tag: z.string().describe("Tag name"),
     },
-    required: ["path", "tag"],
-  });
+    OperationResultSchema,
+  );
 
-  definePluginTool("remove_tag", "Remove a tag from an instance.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
-      tag: { type: "string", description: "Tag name" },
+  definePluginTool(
+    "remove_tag",
+    "Remove a tag from an instance.",
+    {
+      path: instancePath,
+      tag: z.string().describe("Tag name"),
     },
-    required: ["path", "tag"],
-  });
+    OperationResultSchema,
+    { destructive: true },
+  );
 
-  definePluginTool("get_tagged_instances", "Find all instances with a tag.", {
-    type: "object",
-    properties: {
-      tag: { type: "string", description: "Tag name" },
-      root: { type: "string", description: "Optional root to filter within" },
-      limit: { type: "number", description: "Max results (default: 100)" },
+  definePluginTool(
+    "get_tagged_instances",
+    "Find all instances with a tag.",
+    {
+      tag: z.string().describe("Tag name"),
+      root: z.string().optional().describe("Optional root to filter within"),
+      limit: resultLimit,
     },
-    required: ["tag"],
-  });
+    QueryResultSchema,
+  );
 
   // ============================================
   // Selection Tools
   // ============================================
+  currentGroup = "selection";
 
-  definePluginTool("get_selection", "Get currently selected instances.", {
-    type: "object",
-    properties: {},
-  });
+  definePluginTool(
+    "get_selection",
+    "Get currently selected instances.",
+    {},
+    SelectionResultSchema,
+  );
 
-  definePluginTool("set_selection", "Set Studio selection.", {
-    type: "object",
-    properties: {
-      paths: {
-        type: "array",
-        items: { type: "string" },
-        description: "Instance paths to select",
-      },
+  definePluginTool(
+    "set_selection",
+    "Set Studio selection.",
+    {
+      paths: instancePaths.describe("Instance paths to select"),
     },
-    required: ["paths"],
-  });
+    OperationResultSchema,
+  );
 
   // ============================================
   // Collision Group Tools
   // ============================================
+  currentGroup = "collision_groups";
 
-  definePluginTool("create_collision_group", "Create a collision group.", {
-    type: "object",
-    properties: {
-      name: { type: "string", description: "Group name" },
+  definePluginTool(
+    "create_collision_group",
+    "Create a collision group.",
+    {
+      name: z.string().min(1).describe("Group name"),
     },
-    required: ["name"],
-  });
+    OperationResultSchema,
+  );
 
-  definePluginTool("delete_collision_group", "Delete a collision group.", {
-    type: "object",
-    properties: {
-      name: { type: "string", description: "Group name" },
+  definePluginTool(
+    "delete_collision_group",
+    "Delete a collision group.",
+    {
+      name: z.string().min(1).describe("Group name"),
     },
-    required: ["name"],
-  });
+    OperationResultSchema,
+    { destructive: true },
+  );
 
   definePluginTool(
     "set_collision_group_collidable",
     "Set whether two collision groups collide.",
     {
-      type: "object",
-      properties: {
-        group1: { type: "string", description: "First group name" },
-        group2: { type: "string", description: "Second group name" },
-        collidable: { type: "boolean", description: "Whether they collide" },
-      },
-      required: ["group1", "group2", "collidable"],
+      group1: z.string().describe("First group name"),
+      group2: z.string().describe("Second group name"),
+      collidable: z.boolean().describe("Whether they collide"),
     },
+    OperationResultSchema,
   );
 
   definePluginTool(
     "get_collision_group_collidable",
     "Check if two collision groups collide.",
     {
-      type: "object",
-      properties: {
-        group1: { type: "string", description: "First group name" },
-        group2: { type: "string", description: "Second group name" },
-      },
-      required: ["group1", "group2"],
+      group1: z.string().describe("First group name"),
+      group2: z.string().describe("Second group name"),
     },
+    CollidableResultSchema,
   );
 
   definePluginTool(
     "set_part_collision_group",
     "Assign parts to a collision group.",
     {
-      type: "object",
-      properties: {
-        paths: {
-          type: "array",
-          items: { type: "string" },
-          description: "Part instance paths",
-        },
-        group: { type: "string", description: "Collision group name" },
-      },
-      required: ["paths", "group"],
+      paths: instancePaths.describe("Part instance paths"),
+      group: z.string().describe("Collision group name"),
     },
+    OperationResultSchema,
   );
 
   // ============================================
   // Instance Creation Tools
   // ============================================
+  currentGroup = "creation";
 
   definePluginTool(
     "create_instance",
     `Create an instance. ${VALUE_TYPE_HINT}`,
     {
-      type: "object",
-      properties: {
-        class_name: { type: "string", description: "Roblox class name" },
-        parent: { type: "string", description: "Parent instance path" },
-        name: { type: "string", description: "Instance name (optional)" },
-        properties: {
-          type: "object",
-          description: "Initial properties (use _type for complex values)",
-        },
-        attributes: {
-          type: "object",
-          description: "Initial attributes (use _type for complex values)",
-        },
-      },
-      required: ["class_name", "parent"],
+      class_name: z.string().min(1).describe("Roblox class name"),
+      parent: z.string().describe("Parent instance path"),
+      name: z.string().optional().describe("Instance name (optional)"),
+      properties: valueMap("Initial properties (use _type for complex values)"),
+      attributes: valueMap("Initial attributes (use _type for complex values)"),
     },
+    OperationResultSchema,
   );
 
-  definePluginTool("clone_instance", "Clone an instance.", {
-    type: "object",
-    properties: {
-      source: { type: "string", description: "Source instance path" },
-      parent: { type: "string", description: "Parent for clone (optional)" },
-      name: { type: "string", description: "Clone name (optional)" },
+  definePluginTool(
+    "clone_instance",
+    "Clone an instance.",
+    {
+      source: z.string().describe("Source instance path"),
+      parent: z.string().optional().describe("Parent for clone (optional)"),
+      name: z.string().optional().describe("Clone name (optional)"),
     },
-    required: ["source"],
-  });
+    OperationResultSchema,
+  );
 
-  definePluginTool("bulk_clone_instances", "Clone multiple instances.", {
-    type: "object",
-    properties: {
-      sources: {
-        type: "array",
-        items: { type: "string" },
-        description: "Paths to clone",
-      },
-      parent: { type: "string", description: "Parent for all clones" },
-      name_suffix: { type: "string", description: "Suffix for clone names" },
+  definePluginTool(
+    "bulk_clone_instances",
+    "Clone multiple instances.",
+    {
+      sources: z.array(z.string()).describe("Paths to clone"),
+      parent: z.string().optional().describe("Parent for all clones"),
+      name_suffix: z.string().optional().describe("Suffix for clone names"),
     },
-    required: ["sources"],
-  });
+    OperationResultSchema,
+  );
 
-  definePluginTool("delete_instance", "Delete an instance.", {
-    type: "object",
-    properties: {
-      path: { type: "string", description: "Instance path" },
+  definePluginTool(
+    "delete_instance",
+    "Delete an instance.",
+    {
+      path: instancePath,
     },
-    required: ["path"],
-  });
+    OperationResultSchema,
+    { destructive: true },
+  );
 
-  definePluginTool("delete_instances", "Delete multiple instances.", {
-    type: "object",
-    properties: {
-      paths: {
-        type: "array",
-        items: { type: "string" },
-        description: "Paths to delete",
-      },
+  definePluginTool(
+    "delete_instances",
+    "Delete multiple instances.",
+    {
+      paths: instancePaths.describe("Paths to delete"),
     },
-    required: ["paths"],
-  });
+    OperationResultSchema,
+    { destructive: true },
+  );
 
   // ============================================
   // Bulk Operation Tools
   // ============================================
+  currentGroup = "bulk";
 
-  definePluginTool("bulk_scale", "Scale multiple instances.", {
-    type: "object",
-    properties: {
-      paths: {
-        type: "array",
-        items: { type: "string" },
-        description: "Instance paths",
-      },
-      factor: { type: "number", description: "Scale factor" },
+  definePluginTool(
+    "bulk_scale",
+    "Scale multiple instances.",
+    {
+      paths: instancePaths,
+      factor: z.number().positive().describe("Scale factor"),
     },
-    required: ["paths", "factor"],
-  });
+    OperationResultSchema,
+  );
 
   definePluginTool(
     "bulk_pivot_to",
     `PivotTo multiple models to new CFrames. ${VALUE_TYPE_HINT}`,
     {
-      type: "object",
-      properties: {
-        operations: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              path: { type: "string", description: "Model instance path" },
-              cframe: { description: "Target CFrame (use _type: 'CFrame')" },
-            },
-            required: ["path", "cframe"],
-          },
-          description: "List of model paths and target CFrames",
-        },
-      },
-      required: ["operations"],
+      operations: z
+        .array(
+          z
+            .object({
+              path: z.string().describe("Model instance path"),
+              cframe: CFrameValueSchema.describe(
+                "Target CFrame (use _type: 'CFrame')",
+              ),
+            })
+            .strict(),
+        )
+        .describe("List of model paths and target CFrames"),
     },
+    OperationResultSchema,
   );
 
-  definePluginTool("bulk_delete", "Delete multiple instances.", {
-    type: "object",
-    properties: {
-      paths: {
-        type: "array",
-        items: { type: "string" },
-        description: "Paths to delete",
-      },
+  definePluginTool(
+    "bulk_delete",
+    "Delete multiple instances.",
+    {
+      paths: instancePaths.describe("Paths to delete"),
     },
-    required: ["paths"],
-  });
+    OperationResultSchema,
+    { destructive: true },
+  );
 
   definePluginTool(
     "bulk_set_attribute",
     `Set attribute on multiple instances. ${VALUE_TYPE_HINT}`,
     {
-      type: "object",
-      properties: {
-        paths: {
-          type: "array",
-          items: { type: "string" },
-          description: "Instance paths",
-        },
-        attribute: { type: "string", description: "Attribute name" },
-        value: { description: "Value (use _type for complex types)" },
-        value_type: { type: "string", description: "Type hint (optional)" },
-      },
-      required: ["paths", "attribute", "value"],
+      paths: instancePaths,
+      attribute: z.string().describe("Attribute name"),
+      value,
+      value_type: z.string().optional().describe("Type hint (optional)"),
     },
+    OperationResultSchema,
   );
 
   definePluginTool(
     "bulk_set_property",
     `Set property on multiple instances. ${VALUE_TYPE_HINT}`,
     {
-      type: "object",
-      properties: {
-        paths: {
-          type: "array",
-          items: { type: "string" },
-          description: "Instance paths",
-        },
-        property: { type: "string", description: "Property name" },
-        value: { description: "Value (use _type for complex types)" },
-        value_type: { type: "string", description: "Type hint (optional)" },
-      },
-      required: ["paths", "property", "value"],
+      paths: instancePaths,
+      property: z.string().describe("Property name"),
+      value,
+      value_type: z.string().optional().describe("Type hint (optional)"),
     },
+    OperationResultSchema,
   );
 
   definePluginTool(
     "bulk_create_instances",
     `Create multiple instances. ${VALUE_TYPE_HINT}`,
     {
-      type: "object",
-      properties: {
-        instances: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              class_name: { type: "string" },
-              parent: { type: "string" },
-              name: { type: "string" },
-              properties: { type: "object" },
-              attributes: { type: "object" },
-            },
-            required: ["class_name", "parent"],
-          },
-          description: "Instance definitions",
-        },
-      },
-      required: ["instances"],
+      instances: z
+        .array(
+          z
+            .object({
+              class_name: z.string().min(1),
+              parent: z.string(),
+              name: z.string().optional(),
+              properties: valueMap("Initial properties"),
+              attributes: valueMap("Initial attributes"),
+            })
+            .strict(),
+        )
+        .describe("Instance definitions"),
     },
+    OperationResultSchema,
+  );
+
+  // ============================================
+  // Transaction & Undo Tools
+  // ============================================
+  currentGroup = "transactions";
+
+  definePluginCommand(
+    "begin_transaction",
+    "Start grouping changes into one named transaction, undone and redone as a single Studio waypoint.",
+    {
+      name: z
+        .string()
+        .min(1)
+        .describe("Transaction name, e.g. 'Build fireball'"),
+    },
+    async (context, args, options) => {
+      const sessionId = requireSessionId(context, args.session);
+      const transaction = context.transactions.begin(sessionId, args.name);
+      try {
+        await callPlugin(
+          context,
+          "begin_transaction",
+          { transaction_id: transaction.id, name: transaction.name },
+          OperationResultSchema,
+          { session: sessionId, signal: options.signal },
+        );
+      } catch (error) {
+        context.transactions.discard(sessionId);
+        throw error;
+      }
+      return describeTransaction(transaction);
+    },
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  );
+
+  definePluginCommand(
+    "commit_transaction",
+    "Finish the open transaction, keeping its changes.",
+    {},
+    async (context, args, options) => {
+      const sessionId = requireSessionId(context, args.session);
+      const transaction = requireOpenTransaction(context, sessionId);
+      await callPlugin(
+        context,
+        "commit_transaction",
+        { transaction_id: transaction.id },
+        OperationResultSchema,
+        { session: sessionId, signal: options.signal },
+      );
+      return describeTransaction(
+        context.transactions.finish(sessionId, "committed"),
+      );
+    },
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  );
+
+  definePluginCommand(
+    "rollback_transaction",
+    "Discard every change made in the open transaction.",
+    {},
+    async (context, args, options) => {
+      const sessionId = requireSessionId(context, args.session);
+      const transaction = requireOpenTransaction(context, sessionId);
+      await callPlugin(
+        context,
+        "rollback_transaction",
+        { transaction_id: transaction.id },
+        OperationResultSchema,
+        { session: sessionId, signal: options.signal },
+      );
+      return describeTransaction(
+        context.transactions.finish(sessionId, "rolled_back"),
+      );
+    },
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  );
+
+  definePluginCommand(
+    "undo",
+    "Undo the most recent transaction (or single change made outside one).",
+    {},
+    async (context, args, options) => {
+      const sessionId = requireSessionId(context, args.session);
+      requireNoOpenTransaction(context, sessionId);
+      const transaction = context.transactions.nextUndo(sessionId);
+      if (!transaction) {
+        throw new BridgeError("NOTHING_TO_UNDO", "There is nothing to undo");
+      }
+      await callPlugin(
+        context,
+        "undo",
+        { transaction_id: transaction.id },
+        OperationResultSchema,
+        { session: sessionId, signal: options.signal },
+      );
+      context.transactions.markUndone(transaction);
+      return describeTransaction(transaction);
+    },
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  );
+
+  definePluginCommand(
+    "redo",
+    "Redo the most recently undone transaction.",
+    {},
+    async (context, args, options) => {
+      const sessionId = requireSessionId(context, args.session);
+      requireNoOpenTransaction(context, sessionId);
+      const transaction = context.transactions.nextRedo(sessionId);
+      if (!transaction) {
+        throw new BridgeError("NOTHING_TO_REDO", "There is nothing to redo");
+      }
+      await callPlugin(
+        context,
+        "redo",
+        { transaction_id: transaction.id },
+        OperationResultSchema,
+        { session: sessionId, signal: options.signal },
+      );
+      context.transactions.markRedone(transaction);
+      return describeTransaction(transaction);
+    },
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  );
+
+  defineLocalTool(
+    "list_transactions",
+    "List recent transactions, newest first, with what undo and redo would affect.",
+    {
+      session: SESSION_FIELD,
+      limit: resultLimit.describe(
+        "Max transactions (default: 20 unless configured)",
+      ),
+    },
+    async (context, args) => {
+      const sessionId = context.bridge.resolveSessionId(args.session);
+      if (!sessionId) {
+        return {
+          transactions: [],
+          open: null,
+          next_undo: null,
+          next_redo: null,
+        };
+      }
+      const open = context.transactions.getOpen(sessionId);
+      return {
+        transactions: context.transactions
+          .list(sessionId)
+          .slice(0, args.limit ?? context.config.limits.transactions)
+          .map(describeTransaction),
+        open: open?.id ?? null,
+        next_undo: context.transactions.nextUndo(sessionId)?.id ?? null,
+        next_redo: context.transactions.nextRedo(sessionId)?.id ?? null,
+      };
+    },
+  );
+
+  // ============================================
+  // Audit Tools (Local)
+  // ============================================
+  currentGroup = "audit";
+
+  defineLocalTool(
+    "get_audit_log",
+    "Search the log of changes made through this server, newest first. Filter by time range, tool or instance path (use 'Path.Property' for one property's history).",
+    {
+      since: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only entries at or after this ISO 8601 time"),
+      until: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only entries at or before this ISO 8601 time"),
+      tool: z.string().optional().describe("Only calls to this tool"),
+      path: z
+        .string()
+        .optional()
+        .describe(
+          "Only changes to this instance (or property) or its descendants",
+        ),
+      limit: resultLimit.describe(
+        "Max entries (default: 50 unless configured)",
+      ),
+    },
+    async (context, args) => ({
+      ...context.auditLog.query({
+        ...args,
+        limit: args.limit ?? context.config.limits.auditEntries,
+      }),
+      log_path: context.auditLog.path,
+    }),
+  );
+
+  defineLocalTool(
+    "export_luau_script",
+    "Export a session's changes as a standalone Luau script that recreates them (instances, properties, attributes, tags, deletions). Undone and rolled-back changes are left out.",
+    {
+      session: z
+        .string()
+        .optional()
+        .describe(
+          "Studio session (id or place name). Defaults to the active session, or the most recently changed one.",
+        ),
+      since: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only changes at or after this ISO 8601 time"),
+      until: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only changes at or before this ISO 8601 time"),
+      path: z
+        .string()
+        .optional()
+        .describe("Only changes to this instance or its descendants"),
+    },
+    async (context, args) => {
+      // Oldest first, as the changes were made
+      const entries = context.auditLog
+        .query({
+          since: args.since,
+          until: args.until,
+          limit: Number.POSITIVE_INFINITY,
+        })
+        .entries.reverse();
+      const selector =
+        args.session ??
+        context.bridge.resolveSessionId() ??
+        entries.at(-1)?.session;
+      const sessionEntries = entries.filter(
+        (entry) =>
+          selector !== null &&
+          (entry.session === selector || entry.place_name === selector),
+      );
+      const exported = exportLuauScript(sessionEntries, {
+        path: args.path,
+        placeName: sessionEntries.at(-1)?.place_name,
+      });
+      return {
+        session: sessionEntries.at(-1)?.session ?? selector ?? null,
+        ...exported,
+      };
+    },
+  );
+
+  // ============================================
+  // Workflow Tools (Local)
+  // ============================================
+  currentGroup = "workflows";
+
+  defineLocalTool(
+    "run_workflow",
+    "Run a list of tool calls in one go. Step args can reference earlier results with ${id.field} (e.g. ${beam.path}), steps can repeat with for_each/as and run conditionally with if. Returns every step's outcome.",
+    {
+      steps: z
+        .array(WorkflowStepSchema)
+        .min(1)
+        .describe("Steps to run in order"),
+      session: z
+        .string()
+        .optional()
+        .describe("Default Studio session for plugin tool steps"),
+      transaction: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "Run the steps in a transaction with this name, rolled back if the workflow fails",
+        ),
+    },
+    async (context, args, options) => {
+      const call = (name: string, stepArgs: Record<string, unknown>) => {
+        if (name === "run_workflow") {
+          throw new BridgeError(
+            "INVALID_ARGUMENTS",
+            "Workflows can't run other workflows",
+          );
+        }
+        const withSession =
+          isPluginTool(name) && args.session && stepArgs.session === undefined
+            ? { ...stepArgs, session: args.session }
+            : stepArgs;
+        return handleToolCall(context, name, withSession, {
+          signal: options.signal,
+          confirm: options.confirm,
+        });
+      };
+
+      if (!args.transaction) {
+        return runWorkflow(args.steps, call, options);
+      }
+
+      const session = args.session && { session: args.session };
+      const transaction = (await call("begin_transaction", {
+        name: args.transaction,
+        ...session,
+      })) as { transaction_id: string };
+      // Closing the transaction must not be cancelled along with the steps
+      const close = (name: string) =>
+        handleToolCall(
+          context,
+          name,
+          { ...session },
+          { confirm: options.confirm },
+        );
+
+      let result: WorkflowResult | null = null;
+      try {
+        result = await runWorkflow(args.steps, call, options);
+      } finally {
+        const succeeded = result?.success === true;
+        try {
+          await close(
+            succeeded ? "commit_transaction" : "rollback_transaction",
+          );
+        } catch (error) {
+          if (succeeded) {
+            await close("rollback_transaction").catch(() => undefined);
+          }
+          // Never leave the session's transaction open
+          const sessionId = context.bridge.resolveSessionId(args.session);
+          if (
+            sessionId &&
+            context.transactions.getOpen(sessionId)?.id ===
+              transaction.transaction_id
+          ) {
+            context.transactions.discard(sessionId);
+          }
+          throw error;
+        }
+      }
+      return {
+        ...result,
+        transaction_id: transaction.transaction_id,
+        transaction_status: result.success ? "committed" : "rolled_back",
+      };
+    },
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
   );
 
   // ============================================
   // Documentation Tools (Local)
   // ============================================
+  currentGroup = "docs";
 
   defineLocalTool(
     "search_roblox_docs",
     "Search Roblox API by partial name. Finds matching classes, enums, and properties.",
     {
-      type: "object",
-      properties: {
-        query: { type: "string", description: "Search term (partial match)" },
-        category: {
-          type: "string",
-          enum: ["all", "classes", "enums", "properties"],
-          description: "What to search (default: all)",
-        },
-        limit: {
-          type: "number",
-          description: "Max results per category (default: 10)",
-        },
-      },
-      required: ["query"],
+      query: z.string().describe("Search term (partial match)"),
+      category: z
+        .enum(["all", "classes", "enums", "properties"])
+        .default("all")
+        .describe("What to search (default: all)"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .default(10)
+        .describe("Max results per category (default: 10)"),
     },
-    async (context, args) => {
+    async (context, { query, category, limit }) => {
       const docs = requireDocs(context);
-      const query = args.query as string;
-      const category = (args.category as string) ?? "all";
-      const limit = (args.limit as number) ?? 10;
 
       if (category === "classes") {
         return { classes: searchClasses(docs, query, limit) };
@@ -608,34 +1327,26 @@ export function registerTools(): Tool[] {
     "get_roblox_description",
     "Get documentation for a Roblox API element by type and name.",
     {
-      type: "object",
-      properties: {
-        type: {
-          type: "string",
-          enum: [
-            "class",
-            "property",
-            "method",
-            "event",
-            "enum",
-            "enum_item",
-            "datatype",
-            "global",
-          ],
-          description: "Type of element to look up",
-        },
-        name: {
-          type: "string",
-          description:
-            "Element name. For members use 'ClassName.MemberName' format.",
-        },
-      },
-      required: ["type", "name"],
+      type: z
+        .enum([
+          "class",
+          "property",
+          "method",
+          "event",
+          "enum",
+          "enum_item",
+          "datatype",
+          "global",
+        ])
+        .describe("Type of element to look up"),
+      name: z
+        .string()
+        .describe(
+          "Element name. For members use 'ClassName.MemberName' format.",
+        ),
     },
-    async (context, args) => {
+    async (context, { type: lookupType, name }) => {
       const docs = requireDocs(context);
-      const lookupType = args.type as string;
-      const name = args.name as string;
 
       // Parse "ClassName.MemberName" format
       const dotIndex = name.indexOf(".");
@@ -791,39 +1502,26 @@ export function registerTools(): Tool[] {
     "get_roblox_members",
     "Get members of a Roblox class, enum, or datatype.",
     {
-      type: "object",
-      properties: {
-        type: {
-          type: "string",
-          enum: ["class", "enum", "datatype"],
-          description: "Type of element",
-        },
-        name: {
-          type: "string",
-          description: "Class, enum, or datatype name",
-        },
-        include_inherited: {
-          type: "boolean",
-          description:
-            "For classes: include inherited members (default: false)",
-        },
-        members: {
-          type: "string",
-          enum: ["all", "properties", "methods", "events"],
-          description: "For classes: which members to return (default: all)",
-        },
-      },
-      required: ["type", "name"],
+      type: z.enum(["class", "enum", "datatype"]).describe("Type of element"),
+      name: z.string().describe("Class, enum, or datatype name"),
+      include_inherited: z
+        .boolean()
+        .default(false)
+        .describe("For classes: include inherited members (default: false)"),
+      members: z
+        .enum(["all", "properties", "methods", "events"])
+        .default("all")
+        .describe("For classes: which members to return (default: all)"),
     },
     async (context, args) => {
       const docs = requireDocs(context);
-      const lookupType = args.type as string;
-      const name = args.name as string;
+      const lookupType = args.type;
+      const name = args.name;
 
       switch (lookupType) {
         case "class": {
-          const includeInherited = (args.include_inherited as boolean) ?? false;
-          const members = (args.members as string) ?? "all";
+          const includeInherited = args.include_inherited;
+          const members = args.members;
 
           const result = getClassDocs(docs, name, includeInherited);
           if (!result) throw new Error(`Class not found: ${name}`);
@@ -897,10 +1595,7 @@ export function registerTools(): Tool[] {
   defineLocalTool(
     "list_roblox_globals",
     "List all available global variables and functions.",
-    {
-      type: "object",
-      properties: {},
-    },
+    {},
     async (context) => {
       const docs = requireDocs(context);
       return { globals: listGlobals(docs) };
@@ -911,18 +1606,12 @@ export function registerTools(): Tool[] {
     "get_datatype_format",
     "Get JSON serialization format for a Roblox datatype.",
     {
-      type: "object",
-      properties: {
-        datatype_name: {
-          type: "string",
-          enum: getAvailableDataTypes(),
-          description: "Datatype name",
-        },
-      },
-      required: ["datatype_name"],
+      datatype_name: z
+        .enum(getAvailableDataTypes() as [string, ...string[]])
+        .describe("Datatype name"),
     },
     async (_context, args) => {
-      const dataTypeName = args.datatype_name as string;
+      const dataTypeName = args.datatype_name;
       const format = getDataTypeFormat(dataTypeName);
       if (!format) {
         throw new Error(
@@ -940,33 +1629,163 @@ export function registerTools(): Tool[] {
   );
 
   // ============================================
-  // Connection Status Tool (Local)
+  // Connection & Session Tools (Local)
   // ============================================
+  currentGroup = "connection";
 
   defineLocalTool(
     "get_connection_status",
     "Get plugin bridge connection status.",
-    {
-      type: "object",
-      properties: {},
-    },
+    {},
     async (context) => {
       const info = context.bridge.getConnectionInfo();
       return {
         connected: info.connected,
         plugin_version: info.pluginVersion,
         uptime_ms: info.connectedAt ? Date.now() - info.connectedAt : 0,
+        active_session: info.activeSession,
+        session_count: info.sessionCount,
+        stale: info.stale,
+        latency_ms: info.latency && {
+          last: info.latency.lastMs,
+          avg: info.latency.avgMs,
+          p95: info.latency.p95Ms,
+        },
+        sessions: context.bridge.listSessions().map((s) => ({
+          id: s.id,
+          place_name: s.placeName,
+          stale: s.stale,
+          last_seen_ms_ago: Date.now() - s.lastSeenAt,
+          latency_ms: {
+            last: s.latency.lastMs,
+            avg: s.latency.avgMs,
+            p95: s.latency.p95Ms,
+          },
+        })),
+      };
+    },
+  );
+
+  defineLocalTool(
+    "get_server_config",
+    "Get the server's effective configuration (config files, then environment overrides) and permission policy.",
+    {},
+    async (context) => {
+      const { http } = context.config;
+      return {
+        // The token itself is not reported
+        config: {
+          ...context.config,
+          http: { ...http, token: http.token ? "(set)" : null },
+        },
+        permissions: context.permissions,
+      };
+    },
+  );
+
+  defineLocalTool(
+    "get_pairing_code",
+    "Get the code for pairing a VFX Forge plugin with this server.",
+    {
+      regenerate: z
+        .boolean()
+        .default(false)
+        .describe("Invalidate the current code and issue a new one"),
+    },
+    async (context, args) => {
+      const pairing = context.bridge.getPairingCode(args.regenerate);
+      return {
+        code: pairing.code,
+        expires_in_ms: Math.max(0, pairing.expiresAt - Date.now()),
+      };
+    },
+    // regenerate invalidates the current code
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  );
+
+  defineLocalTool(
+    "list_sessions",
+    "List connected Studio sessions.",
+    {},
+    async (context) => {
+      return {
+        sessions: context.bridge.listSessions().map((s) => ({
+          id: s.id,
+          place_name: s.placeName,
+          place_id: s.placeId,
+          plugin_version: s.pluginVersion,
+          protocol_version: s.protocolVersion,
+          uptime_ms: Date.now() - s.connectedAt,
+          active: s.active,
+          reconnecting: s.reconnecting,
+          stale: s.stale,
+        })),
       };
     },
   );
 
-  return Array.from(tools.values()).map((def) => def.tool);
+  defineLocalTool(
+    "select_session",
+    "Set the default Studio session for plugin tools.",
+    {
+      session: z.string().describe("Session id, place name or place id"),
+    },
+    async (context, args) => {
+      const selected = context.bridge.selectSession(args.session);
+      return {
+        id: selected.id,
+        place_name: selected.placeName,
+        place_id: selected.placeId,
+        plugin_version: selected.pluginVersion,
+      };
+    },
+    { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  );
 }
 
+// Tool schemas are built once, when this module loads; servers only attach
+// handlers that look tools up
+registerTools();
+
+/**
+ * Run a tool call, recording its outcome in the bridge's metrics
+ */
 export async function handleToolCall(
   context: ServerContext,
   toolName: string,
   args: Record<string, unknown>,
+  options: ToolCallOptions = {},
+): Promise<unknown> {
+  // Unknown names are not counted, so clients can't add arbitrary series
+  if (!tools.has(toolName)) {
+    return runToolCall(context, toolName, args, options);
+  }
+
+  const startedAt = performance.now();
+  let result: unknown;
+  let errorCode: string | undefined;
+  try {
+    result = await runToolCall(context, toolName, args, options);
+    return result;
+  } catch (error) {
+    errorCode = error instanceof BridgeError ? error.code : "OPERATION_FAILED";
+    throw error;
+  } finally {
+    context.bridge.metrics.recordToolCall(toolName, {
+      durationMs: performance.now() - startedAt,
+      errorCode,
+      argsBytes: Buffer.byteLength(JSON.stringify(args)),
+      resultBytes:
+        result === undefined ? 0 : Buffer.byteLength(JSON.stringify(result)),
+    });
+  }
+}
+
+async function runToolCall(
+  context: ServerContext,
+  toolName: string,
+  args: Record<string, unknown>,
+  options: ToolCallOptions,
 ): Promise<unknown> {
   const toolDef = tools.get(toolName);
 
@@ -974,11 +1793,135 @@ export async function handleToolCall(
     throw new Error(`Unknown tool: ${toolName}`);
   }
 
-  if (toolDef.requiresPlugin && !context.bridge.isConnected()) {
+  const validArgs = validateArguments(toolName, toolDef.schema, args);
+  // Query tools get the configured limit rather than the plugin's own default
+  if (
+    toolDef.requiresPlugin &&
+    "limit" in toolDef.schema.shape &&
+    validArgs.limit === undefined
+  ) {
+    validArgs.limit = context.config.limits.queryResults;
+  }
+  checkPermission(
+    context.permissions,
+    toolDef.tool,
+    toolDef.requiresPlugin,
+    validArgs,
+  );
+
+  if (
+    toolDef.requiresPlugin &&
+    !context.bridge.isConnected(validArgs.session as string | undefined)
+  ) {
     throw new Error(
       `Tool "${toolName}" requires plugin connection. Plugin is not connected.`,
     );
   }
 
-  return toolDef.handler(context, args);
+  if (
+    toolDef.requiresPlugin &&
+    !context.bridge.supportsMethod(
+      toolName,
+      validArgs.session as string | undefined,
+    )
+  ) {
+    throw new Error(
+      `Tool "${toolName}" is not supported by the connected plugin version. Update the VFX Forge plugin.`,
+    );
+  }
+
+  // Previews change nothing, so they don't need confirming. Workflows confirm
+  // each destructive step as it runs instead of the workflow as a whole.
+  if (
+    needsConfirmation(context.permissions, toolDef.tool) &&
+    validArgs.dry_run !== true &&
+    toolName !== "run_workflow"
+  ) {
+    if (!options.confirm) {
+      throw new BridgeError(
+        "PERMISSION_DENIED",
+        `Tool "${toolName}" needs user confirmation, but the client does not support elicitation`,
+        { tool: toolName },
+      );
+    }
+    const { session: _, ...params } = validArgs;
+    const confirmed = await options.confirm(
+      `Allow ${toolName} with ${JSON.stringify(params)}?`,
+    );
+    if (!confirmed) {
+      throw new BridgeError(
+        "PERMISSION_DENIED",
+        `Tool "${toolName}" was declined by the user`,
+        { tool: toolName },
+      );
+    }
+  }
+
+  const changesPlace =
+    toolDef.requiresPlugin &&
+    !toolDef.tool.annotations?.readOnlyHint &&
+    validArgs.dry_run !== true;
+  if (!changesPlace) {
+    return toolDef.handler(context, validArgs, options);
+  }
+
+  // Tag the change with the open transaction, or a transaction of its own
+  const session = validArgs.session as string | undefined;
+  const sessionId = toolDef.transactional
+    ? context.bridge.resolveSessionId(session)
+    : null;
+  const transactionId = sessionId
+    ? context.transactions.idFor(sessionId)
+    : undefined;
+
+  const startedAt = Date.now();
+  const audit = (outcome: Pick<AuditEntry, "result" | "error">) => {
+    const { session: _, ...auditedArgs } = validArgs;
+    const info = findSession(context, session);
+    context.auditLog.append({
+      timestamp: new Date(startedAt).toISOString(),
+      session: info?.id ?? null,
+      place_name: info?.placeName ?? null,
+      tool: toolName,
+      args: auditedArgs,
+      ...(transactionId && { transaction_id: transactionId }),
+      ...outcome,
+      duration_ms: Date.now() - startedAt,
+    });
+  };
+
+  try {
+    const result = await toolDef.handler(context, validArgs, {
+      ...options,
+      transactionId,
+    });
+    if (sessionId && transactionId) {
+      context.transactions.record(sessionId, transactionId, toolName);
+    }
+    audit({ result: summarizeResult(result) });
+    return result;
+  } catch (error) {
+    audit({
+      error:
+        error instanceof BridgeError
+          ? error.toErrorInfo()
+          : {
+              code: "OPERATION_FAILED",
+              message: error instanceof Error ? error.message : String(error),
+            },
+    });
+    throw error;
+  }
+}
+
+function findSession(
+  context: ServerContext,
+  session: string | undefined,
+): SessionInfo | null {
+  try {
+    const id = context.bridge.resolveSessionId(session);
+    return context.bridge.listSessions().find((s) => s.id === id) ?? null;
+  } catch {
+    return null;
+  }
 }
@@ -0,0 +1,115 @@
+import { expect, test } from "bun:test";
+import type { AuditEntry } from "./audit-log.js";
+import { exportLuauScript, luauString, toLuauValue } from "./luau-export.js";
+
+test("writes values with their Luau constructors", () => {
+  expect(toLuauValue({ _type: "Color3", r: 1, g: 0.5, b: 0 })).toBe(
+    "Color3.new(1, 0.5, 0)",
+  );
+  expect(
+    toLuauValue({
+      _type: "NumberSequence",
+      keypoints: [
+        { time: 0, value: 1 },
+        { time: 1, value: 0, envelope: 0.2 },
+      ],
+    }),
+  ).toBe(
+    "NumberSequence.new({ NumberSequenceKeypoint.new(0, 1, 0), NumberSequenceKeypoint.new(1, 0, 0.2) })",
+  );
+  expect(toLuauValue({ _type: "Enum", enum: "Material", value: "Neon" })).toBe(
+    "Enum.Material.Neon",
+  );
+  expect(
+    toLuauValue({
+      _type: "CFrame",
+      position: { x: 0, y: 5, z: 0 },
+      rotation: { x: 0, y: 90, z: 0 },
+    }),
+  ).toBe(
+    "CFrame.new(0, 5, 0) * CFrame.Angles(math.rad(0), math.rad(90), math.rad(0))",
+  );
+  expect(
+    toLuauValue({
+      _type: "UDim2",
+      x: { scale: 0.5, offset: 0 },
+      y: { scale: 0, offset: 20 },
+    }),
+  ).toBe("UDim2.new(UDim.new(0.5, 0), UDim.new(0, 20))");
+  expect(toLuauValue({ r: 0, g: 0, b: 1 }, "Color3")).toBe(
+    "Color3.new(0, 0, 1)",
+  );
+  expect(toLuauValue({ _type: "unsupported", typeName: "Path2D" })).toBeNull();
+  expect(toLuauValue(Number.POSITIVE_INFINITY)).toBe("math.huge");
+  expect(luauString('say "hi"\n\x01')).toBe('"say \\"hi\\"\\n\\001"');
+});
+
+test("replays redone transactions and leaves out rolled-back ones", () => {
+  const base = {
+    timestamp: "2026-01-01T10:00:00.000Z",
+    session: "session-1",
+    place_name: "Arena",
+    duration_ms: 1,
+  };
+  const change = (
+    tool: string,
+    args: Record<string, unknown>,
+    transactionId: string,
+  ): AuditEntry => ({
+    ...base,
+    tool,
+    args,
+    transaction_id: transactionId,
+    result: { success: true },
+  });
+  // History tools report the transaction they acted on
+  const history = (tool: string, transactionId: string): AuditEntry => ({
+    ...base,
+    tool,
+    args: {},
+    result: { success: true, transaction_id: transactionId },
+  });
+
+  const { script, operations } = exportLuauScript([
+    change("delete_instance", { path: "Workspace.Old" }, "t1"),
+    history("undo", "t1"),
+    history("redo", "t1"),
+    change("create_collision_group", { name: "Sparks" }, "t2"),
+    history("rollback_transaction", "t2"),
+    change(
+      "set_attribute",
+      { path: "Workspace.Fire", attribute: "end", value: 2 },
+      "t3",
+    ),
+  ]);
+
+  expect(operations).toBe(2);
+  expect(script).toContain('getInstance("Workspace.Old"):Destroy()');
+  expect(script).not.toContain("PhysicsService");
+  expect(script).toContain(
+    'getInstance("Workspace.Fire"):SetAttribute("end", 2)',
+  );
+});
+
+test("quotes names in comments about skipped values", () => {
+  const { script } = exportLuauScript([
+    {
+      timestamp: "2026-01-01T10:00:00.000Z",
+      session: "session-1",
+      place_name: "Arena",
+      duration_ms: 1,
+      tool: "set_attribute",
+      args: {
+        path: "Workspace.Fire",
+        attribute: "x\ngame:Destroy()",
+        value: { _type: "unsupported", typeName: "Path2D" },
+      },
+      result: { success: true },
+    },
+  ]);
+
+  expect(script).toContain(
+    '-- "x\\ngame:Destroy()" attribute skipped: value has no Luau form',
+  );
+  expect(script).not.toMatch(/^\s*game:Destroy\(\)/m);
+});
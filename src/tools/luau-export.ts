@@ -0,0 +1,502 @@
+/**
+ * Luau export
+ * Turns the audited changes of a session into a standalone Luau script that
+ * rebuilds them, for the command bar or a plugin. Undone and rolled-back
+ * transactions are left out.
+ */
+
+import type {
+  CFrameValue,
+  ColorSequenceValue,
+  EnumValue,
+  InstanceValue,
+  NumberRangeValue,
+  NumberSequenceValue,
+  UDim2Value,
+  UDimValue,
+  Vector2Value,
+  Vector3Value,
+} from "../types/messages.js";
+import type { AuditEntry } from "./audit-log.js";
+import { collectInstancePaths, isPathUnder } from "./permissions.js";
+
+export interface SkippedOperation {
+  timestamp: string;
+  tool: string;
+  reason: string;
+}
+
+export interface LuauExport {
+  script: string;
+  // Audited calls turned into statements
+  operations: number;
+  skipped: SkippedOperation[];
+}
+
+export interface LuauExportOptions {
+  // Only calls touching this instance or its descendants
+  path?: string;
+  // Named in the script header
+  placeName?: string | null;
+}
+
+type Args = Record<string, unknown>;
+
+interface InstanceSpec {
+  class_name: string;
+  parent: string;
+  name?: string;
+  properties?: Record<string, unknown>;
+  attributes?: Record<string, unknown>;
+}
+
+const INDENT = "\t";
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Luau reserved words can't follow a dot
+const KEYWORDS = new Set([
+  "and",
+  "break",
+  "do",
+  "else",
+  "elseif",
+  "end",
+  "false",
+  "for",
+  "function",
+  "if",
+  "in",
+  "local",
+  "nil",
+  "not",
+  "or",
+  "repeat",
+  "return",
+  "then",
+  "true",
+  "until",
+  "while",
+]);
+
+// Resolves "Workspace.Effects.Fire" (optionally prefixed with "game.") the way
+// the plugin does, failing loudly if the place doesn't match
+const GET_INSTANCE = `local function getInstance(path: string): Instance
+${INDENT}local current: Instance = game
+${INDENT}for index, name in string.split(path, ".") do
+${INDENT}${INDENT}if index == 1 and name == "game" then
+${INDENT}${INDENT}${INDENT}continue
+${INDENT}${INDENT}end
+${INDENT}${INDENT}local child = current:FindFirstChild(name)
+${INDENT}${INDENT}if not child and current == game then
+${INDENT}${INDENT}${INDENT}child = game:GetService(name)
+${INDENT}${INDENT}end
+${INDENT}${INDENT}if not child then
+${INDENT}${INDENT}${INDENT}error(\`Instance not found: {path}\`)
+${INDENT}${INDENT}end
+${INDENT}${INDENT}current = child
+${INDENT}end
+${INDENT}return current
+end`;
+
+/**
+ * Quote a string as a Luau string literal
+ */
+export function luauString(value: string): string {
+  const escaped = value.replace(/[\\"\x00-\x1f\x7f]/g, (char) => {
+    switch (char) {
+      case "\\":
+        return "\\\\";
+      case '"':
+        return '\\"';
+      case "\n":
+        return "\\n";
+      case "\r":
+        return "\\r";
+      case "\t":
+        return "\\t";
+      default:
+        return `\\${char.charCodeAt(0).toString().padStart(3, "0")}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+function luauNumber(value: number): string {
+  if (Number.isNaN(value)) return "0 / 0";
+  if (!Number.isFinite(value)) return value > 0 ? "math.huge" : "-math.huge";
+  return String(value);
+}
+
+function numbers(...values: unknown[]): string {
+  return values.map((value) => luauNumber(Number(value))).join(", ");
+}
+
+// Enum.Material.Neon, or Enum["Odd Name"] for names that aren't identifiers
+function luauEnum(enumType: string, item: string): string {
+  const index = (name: string) =>
+    IDENTIFIER.test(name) ? `.${name}` : `[${luauString(name)}]`;
+  return `Enum${index(enumType)}${index(item)}`;
+}
+
+const getInstance = (path: unknown) =>
+  `getInstance(${luauString(String(path))})`;
+
+function luauMember(target: string, member: string): string {
+  return IDENTIFIER.test(member) && !KEYWORDS.has(member)
+    ? `${target}.${member}`
+    : `${target}[${luauString(member)}]`;
+}
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+interface Xy {
+  x: number;
+  y: number;
+}
+
+const color3 = (color: Rgb) =>
+  `Color3.new(${numbers(color.r, color.g, color.b)})`;
+
+const udim = (value: UDimValue | UDim2Value["x"]) =>
+  `UDim.new(${numbers(value.scale, value.offset)})`;
+
+function cframe({ position: { x, y, z }, rotation }: CFrameValue): string {
+  if (Array.isArray(rotation)) {
+    return `CFrame.new(${numbers(x, y, z, ...rotation)})`;
+  }
+  const translation = `CFrame.new(${numbers(x, y, z)})`;
+  if (!rotation) return translation;
+  const rad = (degrees: number) => `math.rad(${luauNumber(degrees)})`;
+  return `${translation} * CFrame.Angles(${rad(rotation.x)}, ${rad(rotation.y)}, ${rad(rotation.z)})`;
+}
+
+// Constructors by `_type`, including the pass-through types (Rect, Font,
+// BrickColor) the value schema doesn't check
+const CONSTRUCTORS: Record<string, (value: never) => string> = {
+  Color3: color3,
+  Vector3: (value: Vector3Value) =>
+    `Vector3.new(${numbers(value.x, value.y, value.z)})`,
+  Vector2: (value: Vector2Value) => `Vector2.new(${numbers(value.x, value.y)})`,
+  CFrame: cframe,
+  NumberSequence: (value: NumberSequenceValue) =>
+    `NumberSequence.new({ ${value.keypoints
+      .map(
+        (keypoint) =>
+          `NumberSequenceKeypoint.new(${numbers(
+            keypoint.time,
+            keypoint.value,
+            keypoint.envelope ?? 0,
+          )})`,
+      )
+      .join(", ")} })`,
+  ColorSequence: (value: ColorSequenceValue) =>
+    `ColorSequence.new({ ${value.keypoints
+      .map(
+        (keypoint) =>
+          `ColorSequenceKeypoint.new(${luauNumber(keypoint.time)}, ${color3(keypoint.color)})`,
+      )
+      .join(", ")} })`,
+  NumberRange: (value: NumberRangeValue) =>
+    `NumberRange.new(${numbers(value.min, value.max)})`,
+  UDim: udim,
+  UDim2: (value: UDim2Value) => `UDim2.new(${udim(value.x)}, ${udim(value.y)})`,
+  Enum: (value: EnumValue) => luauEnum(value.enum, value.value),
+  Instance: (value: InstanceValue) => getInstance(value.path),
+  Rect: (value: { min: Xy; max: Xy }) =>
+    `Rect.new(${numbers(value.min.x, value.min.y, value.max.x, value.max.y)})`,
+  Font: (value: { family: string; weight?: string; style?: string }) =>
+    `Font.new(${luauString(value.family)}, ${luauEnum(
+      "FontWeight",
+      value.weight ?? "Regular",
+    )}, ${luauEnum("FontStyle", value.style ?? "Normal")})`,
+  BrickColor: (value: { name?: string; number?: number }) =>
+    `BrickColor.new(${
+      value.name !== undefined
+        ? luauString(value.name)
+        : luauNumber(Number(value.number))
+    })`,
+};
+
+/**
+ * Write a serialized value as the Luau expression that constructs it, or null
+ * if it has no Luau form (e.g. an unsupported type the plugin reported)
+ */
+export function toLuauValue(value: unknown, valueType?: string): string | null {
+  if (value === null || value === undefined) return "nil";
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") return luauNumber(value);
+  // Strings are assignable to enum properties as they are
+  if (typeof value === "string") {
+    if (valueType === "BrickColor")
+      return `BrickColor.new(${luauString(value)})`;
+    if (valueType === "Instance") return `getInstance(${luauString(value)})`;
+    return luauString(value);
+  }
+  if (typeof value !== "object") return null;
+
+  // A type hint stands in for a missing `_type`
+  const typed = value as Record<string, unknown>;
+  const type = typeof typed._type === "string" ? typed._type : valueType;
+  const construct = type ? CONSTRUCTORS[type] : undefined;
+  if (!construct) return null;
+  try {
+    return construct(typed as never);
+  } catch {
+    // Malformed pass-through table, e.g. a Rect without corners
+    return null;
+  }
+}
+
+// Assignments to `target`, with a comment in place of values that can't be
+// written in Luau. Names in comments are quoted so a newline can't end them.
+function assign(
+  target: string,
+  member: string,
+  value: unknown,
+  valueType?: string,
+): string {
+  const expression = toLuauValue(value, valueType);
+  return expression === null
+    ? `-- ${luauString(member)} skipped: value has no Luau form`
+    : `${luauMember(target, member)} = ${expression}`;
+}
+
+function setAttribute(
+  target: string,
+  attribute: string,
+  value: unknown,
+  valueType?: string,
+): string {
+  const expression = toLuauValue(value, valueType);
+  return expression === null
+    ? `-- ${luauString(attribute)} attribute skipped: value has no Luau form`
+    : `${target}:SetAttribute(${luauString(attribute)}, ${expression})`;
+}
+
+function nameOf(path: string): string {
+  return path.slice(path.lastIndexOf(".") + 1);
+}
+
+function block(lines: string[]): string[] {
+  return ["do", ...lines.map((line) => INDENT + line), "end"];
+}
+
+function create(spec: InstanceSpec): string[] {
+  return block([
+    `local instance = Instance.new(${luauString(spec.class_name)})`,
+    ...(spec.name !== undefined ? [assign("instance", "Name", spec.name)] : []),
+    ...Object.entries(spec.properties ?? {}).map(([property, value]) =>
+      assign("instance", property, value),
+    ),
+    ...Object.entries(spec.attributes ?? {}).map(([attribute, value]) =>
+      setAttribute("instance", attribute, value),
+    ),
+    // Parent last so the instance replicates fully formed
+    `instance.Parent = ${getInstance(spec.parent)}`,
+  ]);
+}
+
+function clone(source: string, parent: unknown, name?: string): string[] {
+  return block([
+    `local source = ${getInstance(source)}`,
+    "local clone = source:Clone()",
+    ...(name !== undefined ? [assign("clone", "Name", name)] : []),
+    `clone.Parent = ${parent === undefined ? "source.Parent" : getInstance(parent)}`,
+  ]);
+}
+
+const destroy = (paths: unknown) =>
+  (paths as string[]).map((path) => `${getInstance(path)}:Destroy()`);
+
+const PHYSICS_SERVICE =
+  'local PhysicsService = game:GetService("PhysicsService")';
+
+// Statements for each tool that changes the place; tools not listed here are
+// reported as skipped
+const STATEMENTS: Record<string, (args: Args) => string[]> = {
+  create_instance: (args) => create(args as unknown as InstanceSpec),
+  bulk_create_instances: (args) =>
+    (args.instances as InstanceSpec[]).flatMap(create),
+
+  clone_instance: (args) =>
+    clone(args.source as string, args.parent, args.name as string | undefined),
+  bulk_clone_instances: (args) =>
+    (args.sources as string[]).flatMap((source) =>
+      clone(
+        source,
+        args.parent,
+        args.name_suffix === undefined
+          ? undefined
+          : `${nameOf(source)}${String(args.name_suffix)}`,
+      ),
+    ),
+
+  delete_instance: (args) => destroy([args.path]),
+  delete_instances: (args) => destroy(args.paths),
+  bulk_delete: (args) => destroy(args.paths),
+
+  set_property: (args) => [
+    assign(
+      getInstance(args.path),
+      args.property as string,
+      args.value,
+      args.value_type as string | undefined,
+    ),
+  ],
+  bulk_set_property: (args) =>
+    (args.paths as string[]).map((path) =>
+      assign(
+        getInstance(path),
+        args.property as string,
+        args.value,
+        args.value_type as string | undefined,
+      ),
+    ),
+
+  set_attribute: (args) => [
+    setAttribute(
+      getInstance(args.path),
+      args.attribute as string,
+      args.value,
+      args.value_type as string | undefined,
+    ),
+  ],
+  bulk_set_attribute: (args) =>
+    (args.paths as string[]).map((path) =>
+      setAttribute(
+        getInstance(path),
+        args.attribute as string,
+        args.value,
+        args.value_type as string | undefined,
+      ),
+    ),
+  delete_attribute: (args) => [
+    setAttribute(getInstance(args.path), args.attribute as string, null),
+  ],
+
+  add_tag: (args) => [
+    `${getInstance(args.path)}:AddTag(${luauString(args.tag as string)})`,
+  ],
+  remove_tag: (args) => [
+    `${getInstance(args.path)}:RemoveTag(${luauString(args.tag as string)})`,
+  ],
+
+  bulk_pivot_to: (args) =>
+    (args.operations as Array<{ path: string; cframe: unknown }>).map(
+      ({ path, cframe }) =>
+        `${getInstance(path)}:PivotTo(${toLuauValue(cframe) ?? "nil"})`,
+    ),
+
+  create_collision_group: (args) => [
+    `PhysicsService:RegisterCollisionGroup(${luauString(args.name as string)})`,
+  ],
+  delete_collision_group: (args) => [
+    `PhysicsService:UnregisterCollisionGroup(${luauString(args.name as string)})`,
+  ],
+  set_collision_group_collidable: (args) => [
+    `PhysicsService:CollisionGroupSetCollidable(${luauString(
+      args.group1 as string,
+    )}, ${luauString(args.group2 as string)}, ${String(args.collidable)})`,
+  ],
+  set_part_collision_group: (args) =>
+    (args.paths as string[]).map((path) =>
+      assign(getInstance(path), "CollisionGroup", args.group),
+    ),
+};
+
+const SKIP_REASONS: Record<string, string> = {
+  set_selection: "The Studio selection is not part of the place",
+  bulk_scale:
+    "Scaling depends on each instance's class and has no single Luau call",
+};
+
+// Tools that move a transaction in or out of the place's history
+const HISTORY_TOOLS: Record<string, boolean> = {
+  undo: false,
+  rollback_transaction: false,
+  redo: true,
+};
+
+// Transactions whose changes are no longer in the place
+function revertedTransactions(entries: AuditEntry[]): Set<string> {
+  const reverted = new Set<string>();
+  for (const entry of entries) {
+    const id = entry.result?.transaction_id;
+    if (!(entry.tool in HISTORY_TOOLS) || typeof id !== "string") continue;
+    if (HISTORY_TOOLS[entry.tool]) {
+      reverted.delete(id);
+    } else {
+      reverted.add(id);
+    }
+  }
+  return reverted;
+}
+
+/**
+ * Build a script that replays a session's successful changes. `entries` must
+ * be in the order they were made.
+ */
+export function exportLuauScript(
+  entries: AuditEntry[],
+  options: LuauExportOptions = {},
+): LuauExport {
+  const reverted = revertedTransactions(entries);
+  const skipped: SkippedOperation[] = [];
+  const body: string[] = [];
+  const exported: string[] = [];
+  let usesPhysics = false;
+
+  for (const entry of entries) {
+    if (entry.error || entry.tool in HISTORY_TOOLS) continue;
+    if (entry.transaction_id && reverted.has(entry.transaction_id)) continue;
+    if (
+      options.path &&
+      !collectInstancePaths(entry.args).some((path) =>
+        isPathUnder(path, options.path!),
+      )
+    ) {
+      continue;
+    }
+
+    const statements = STATEMENTS[entry.tool];
+    if (!statements) {
+      // Transaction bookkeeping has nothing to replay
+      if (entry.tool.endsWith("_transaction")) continue;
+      skipped.push({
+        timestamp: entry.timestamp,
+        tool: entry.tool,
+        reason: SKIP_REASONS[entry.tool] ?? "No Luau equivalent",
+      });
+      continue;
+    }
+
+    const lines = statements(entry.args);
+    usesPhysics ||= lines.some((line) => line.startsWith("PhysicsService:"));
+    body.push("", `-- ${entry.tool} (${entry.timestamp})`, ...lines);
+    exported.push(entry.timestamp);
+  }
+
+  const operations = exported.length;
+  const header = [
+    `-- Generated by VFX Forge${
+      options.placeName ? ` from ${options.placeName.replace(/\s+/g, " ")}` : ""
+    }`,
+    operations > 0
+      ? `-- ${operations} change(s) recorded ${exported[0]} to ${exported.at(-1)}`
+      : "-- No changes recorded",
+    "",
+    ...(usesPhysics ? [PHYSICS_SERVICE, ""] : []),
+    GET_INSTANCE,
+  ];
+
+  return {
+    script: `${[...header, ...body].join("\n")}\n`,
+    operations,
+    skipped,
+  };
+}
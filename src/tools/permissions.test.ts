@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { collectInstancePaths, loadPermissionPolicy } from "./permissions.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "vfx-forge-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("loadPermissionPolicy", () => {
+  test("defaults to allowing everything", async () => {
+    expect(await loadPermissionPolicy({})).toEqual({
+      readOnly: false,
+      allowTools: null,
+      denyTools: [],
+      allowPaths: null,
+      denyPaths: [],
+      confirmDestructive: false,
+    });
+  });
+
+  test("reads the policy file and lets env variables override it", async () => {
+    const file = join(dir, "policy.json");
+    await writeFile(
+      file,
+      JSON.stringify({ readOnly: true, denyPaths: ["ServerStorage"] }),
+    );
+
+    const policy = await loadPermissionPolicy({
+      VFX_FORGE_POLICY_FILE: file,
+      VFX_FORGE_READ_ONLY: "0",
+      VFX_FORGE_DENY_TOOLS: "bulk_delete, delete_instances",
+    });
+    expect(policy.readOnly).toBe(false);
+    expect(policy.denyPaths).toEqual(["ServerStorage"]);
+    expect(policy.denyTools).toEqual(["bulk_delete", "delete_instances"]);
+  });
+
+  test("rejects unknown fields in the policy file", async () => {
+    const file = join(dir, "policy.json");
+    await writeFile(file, JSON.stringify({ readonly: true }));
+
+    await expect(
+      loadPermissionPolicy({ VFX_FORGE_POLICY_FILE: file }),
+    ).rejects.toThrow("Invalid policy file");
+  });
+});
+
+describe("collectInstancePaths", () => {
+  test("finds paths in nested arguments", () => {
+    expect(
+      collectInstancePaths({
+        sources: ["Workspace.A", "Workspace.B"],
+        operations: [{ path: "Workspace.C", cframe: {} }],
+        name: "NotAPath",
+      }),
+    ).toEqual(["Workspace.A", "Workspace.B", "Workspace.C"]);
+  });
+});
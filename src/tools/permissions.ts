@@ -0,0 +1,277 @@
+/**
+ * Tool permission policies
+ * Restricts which tools an agent may call and which instances they may touch:
+ * a global read-only mode, allow/deny lists by tool name and by instance path
+ * prefix, and confirmation before destructive tools run.
+ */
+
+import { readFile } from "node:fs/promises";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { BridgeError } from "../bridge/errors.js";
+
+export interface PermissionPolicy {
+  // Refuse every plugin tool that changes the place
+  readOnly: boolean;
+  // Only these tools may be called (null = all tools)
+  allowTools: string[] | null;
+  denyTools: string[];
+  // Instance paths must fall under one of these prefixes (null = anywhere)
+  allowPaths: string[] | null;
+  denyPaths: string[];
+  // Ask the user through MCP elicitation before destructive tools run
+  confirmDestructive: boolean;
+}
+
+export const DEFAULT_PERMISSIONS: PermissionPolicy = {
+  readOnly: false,
+  allowTools: null,
+  denyTools: [],
+  allowPaths: null,
+  denyPaths: [],
+  confirmDestructive: false,
+};
+
+export const PolicyFileSchema = z
+  .object({
+    readOnly: z.boolean(),
+    allowTools: z.array(z.string()).nullable(),
+    denyTools: z.array(z.string()),
+    allowPaths: z.array(z.string()).nullable(),
+    denyPaths: z.array(z.string()),
+    confirmDestructive: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseFlag(value: string | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === "1" || value === "true";
+}
+
+/**
+ * Build the policy from `base` (the server config's permissions),
+ * VFX_FORGE_POLICY_FILE (a JSON file with the fields of PermissionPolicy) and
+ * the individual environment variables, each taking precedence over the last.
+ */
+export async function loadPermissionPolicy(
+  env: Record<string, string | undefined> = process.env,
+  base: Partial<PermissionPolicy> = {},
+): Promise<PermissionPolicy> {
+  let fromFile: z.infer<typeof PolicyFileSchema> = {};
+  const policyFile = env.VFX_FORGE_POLICY_FILE;
+  if (policyFile) {
+    const parsed = PolicyFileSchema.safeParse(
+      JSON.parse(await readFile(policyFile, "utf8")),
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid policy file ${policyFile}: ${parsed.error.issues
+          .map(
+            (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+          )
+          .join("; ")}`,
+      );
+    }
+    fromFile = parsed.data;
+  }
+
+  const fromEnv = {
+    readOnly: parseFlag(env.VFX_FORGE_READ_ONLY),
+    allowTools: parseList(env.VFX_FORGE_ALLOW_TOOLS),
+    denyTools: parseList(env.VFX_FORGE_DENY_TOOLS),
+    allowPaths: parseList(env.VFX_FORGE_ALLOW_PATHS),
+    denyPaths: parseList(env.VFX_FORGE_DENY_PATHS),
+    confirmDestructive: parseFlag(env.VFX_FORGE_CONFIRM_DESTRUCTIVE),
+  };
+
+  const policy = { ...DEFAULT_PERMISSIONS, ...base, ...fromFile };
+  for (const [key, value] of Object.entries(fromEnv)) {
+    if (value !== undefined) {
+      Object.assign(policy, { [key]: value });
+    }
+  }
+  return policy;
+}
+
+// Arguments that name instances, at any depth (e.g. operations[].path)
+const PATH_ARGUMENTS = new Set([
+  "path",
+  "paths",
+  "root",
+  "parent",
+  "source",
+  "sources",
+]);
+
+/**
+ * Collect every instance path a tool call refers to
+ */
+export function collectInstancePaths(args: unknown): string[] {
+  if (Array.isArray(args)) {
+    return args.flatMap(collectInstancePaths);
+  }
+  if (!args || typeof args !== "object") {
+    return [];
+  }
+  return Object.entries(args).flatMap(([key, value]) => {
+    if (PATH_ARGUMENTS.has(key)) {
+      if (typeof value === "string") return [value];
+      if (Array.isArray(value)) {
+        return value.filter((item) => typeof item === "string");
+      }
+    }
+    return typeof value === "object" ? collectInstancePaths(value) : [];
+  });
+}
+
+function parentOf(path: string): string {
+  const dot = path.lastIndexOf(".");
+  return dot === -1 ? "game" : path.slice(0, dot);
+}
+
+// Where tools act when a path argument is left out. Null means the whole
+// place, which no path policy can allow.
+const IMPLICIT_PATHS: Record<
+  string,
+  (args: Record<string, unknown>) => Record<string, unknown> | null
+> = {
+  query_descendants: (args) =>
+    args.root === undefined ? { root: "Workspace" } : {},
+  get_tagged_instances: (args) => (args.root === undefined ? null : {}),
+  clone_instance: (args) =>
+    args.parent === undefined && typeof args.source === "string"
+      ? { parent: parentOf(args.source) }
+      : {},
+  bulk_clone_instances: (args) =>
+    args.parent === undefined && Array.isArray(args.sources)
+      ? {
+          parent: args.sources
+            .filter((source) => typeof source === "string")
+            .map(parentOf),
+        }
+      : {},
+};
+
+// "game.Workspace.Part" and "Workspace.Part" name the same instance
+function normalizePath(path: string): string {
+  return path.replace(/^game\./, "");
+}
+
+/**
+ * Whether `path` is `prefix` or a descendant of it
+ */
+export function isPathUnder(path: string, prefix: string): boolean {
+  const normalized = normalizePath(path);
+  const base = normalizePath(prefix);
+  return normalized === base || normalized.startsWith(`${base}.`);
+}
+
+// Tools that accept dry_run can still preview changes in read-only mode
+function supportsDryRun(tool: Tool): boolean {
+  return "dry_run" in (tool.inputSchema.properties ?? {});
+}
+
+/**
+ * Why the policy refuses a tool regardless of its arguments, or null if it may
+ * be called
+ */
+export function getToolDenial(
+  policy: PermissionPolicy,
+  tool: Tool,
+  requiresPlugin: boolean,
+): string | null {
+  if (policy.denyTools.includes(tool.name)) {
+    return `Tool "${tool.name}" is denied by the server's permission policy`;
+  }
+  if (policy.allowTools && !policy.allowTools.includes(tool.name)) {
+    return `Tool "${tool.name}" is not in the server's allowed tools`;
+  }
+  if (
+    policy.readOnly &&
+    requiresPlugin &&
+    !tool.annotations?.readOnlyHint &&
+    !supportsDryRun(tool)
+  ) {
+    return `Tool "${tool.name}" changes the place and the server is in read-only mode`;
+  }
+  return null;
+}
+
+/**
+ * Throw PERMISSION_DENIED if the policy refuses this call
+ */
+export function checkPermission(
+  policy: PermissionPolicy,
+  tool: Tool,
+  requiresPlugin: boolean,
+  args: Record<string, unknown>,
+): void {
+  const denial = getToolDenial(policy, tool, requiresPlugin);
+  if (denial) {
+    throw new BridgeError("PERMISSION_DENIED", denial, { tool: tool.name });
+  }
+  if (
+    policy.readOnly &&
+    requiresPlugin &&
+    !tool.annotations?.readOnlyHint &&
+    args.dry_run !== true
+  ) {
+    throw new BridgeError(
+      "PERMISSION_DENIED",
+      `Tool "${tool.name}" changes the place and the server is in read-only mode; only dry_run previews are allowed`,
+      { tool: tool.name },
+    );
+  }
+
+  const hasPathPolicy =
+    policy.allowPaths !== null || policy.denyPaths.length > 0;
+  const fillIn = IMPLICIT_PATHS[tool.name];
+  const implicit = fillIn ? fillIn(args) : {};
+  if (hasPathPolicy && implicit === null) {
+    throw new BridgeError(
+      "PERMISSION_DENIED",
+      `Tool "${tool.name}" needs a root while the server's permission policy restricts paths`,
+      { tool: tool.name },
+    );
+  }
+
+  for (const path of collectInstancePaths({ ...args, ...implicit })) {
+    const denied = policy.denyPaths.find((prefix) => isPathUnder(path, prefix));
+    if (denied) {
+      throw new BridgeError(
+        "PERMISSION_DENIED",
+        `Path "${path}" is under "${denied}", which the server's permission policy denies`,
+        { tool: tool.name, path },
+      );
+    }
+    if (
+      policy.allowPaths &&
+      !policy.allowPaths.some((prefix) => isPathUnder(path, prefix))
+    ) {
+      throw new BridgeError(
+        "PERMISSION_DENIED",
+        `Path "${path}" is outside the server's allowed paths`,
+        { tool: tool.name, path },
+      );
+    }
+  }
+}
+
+/**
+ * Whether a call must be confirmed by the user before it runs
+ */
+export function needsConfirmation(
+  policy: PermissionPolicy,
+  tool: Tool,
+): boolean {
+  return (
+    policy.confirmDestructive && tool.annotations?.destructiveHint === true
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Transaction history
+ * Tracks the transactions agent operations are grouped into, per Studio
+ * session, so they can be listed and undone or redone as a unit. Each
+ * transaction corresponds to one ChangeHistoryService waypoint in the plugin.
+ */
+
+import { BridgeError } from "../bridge/errors.js";
+
+// Oldest transactions are forgotten beyond this, like Studio's own history
+const MAX_HISTORY = 200;
+
+export type TransactionStatus = "open" | "committed" | "rolled_back" | "undone";
+
+export interface Transaction {
+  id: string;
+  name: string;
+  sessionId: string;
+  // false for a single operation made outside begin_transaction
+  explicit: boolean;
+  status: TransactionStatus;
+  // Tools that changed the place within this transaction
+  operations: string[];
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+export interface TransactionLog {
+  // Open a transaction; throws TRANSACTION_ACTIVE if one is already open
+  begin: (sessionId: string, name: string) => Transaction;
+  getOpen: (sessionId: string) => Transaction | null;
+  // Forget an open transaction the plugin refused to start
+  discard: (sessionId: string) => void;
+  // Close the open transaction; throws NO_TRANSACTION if there is none
+  finish: (
+    sessionId: string,
+    status: "committed" | "rolled_back",
+  ) => Transaction;
+  // Transaction id to tag a mutating request with: the open transaction's,
+  // or a new one for a single operation
+  idFor: (sessionId: string) => string;
+  // Record a successful mutating request sent with an id from idFor
+  record: (sessionId: string, transactionId: string, toolName: string) => void;
+  nextUndo: (sessionId: string) => Transaction | null;
+  nextRedo: (sessionId: string) => Transaction | null;
+  markUndone: (transaction: Transaction) => void;
+  markRedone: (transaction: Transaction) => void;
+  // Newest first
+  list: (sessionId?: string) => Transaction[];
+}
+
+interface SessionHistory {
+  open: Transaction | null;
+  undo: Transaction[];
+  redo: Transaction[];
+}
+
+export function createTransactionLog(): TransactionLog {
+  const history: Transaction[] = [];
+  const sessions = new Map<string, SessionHistory>();
+
+  function sessionHistory(sessionId: string): SessionHistory {
+    let entry = sessions.get(sessionId);
+    if (!entry) {
+      entry = { open: null, undo: [], redo: [] };
+      sessions.set(sessionId, entry);
+    }
+    return entry;
+  }
+
+  function remember(transaction: Transaction) {
+    history.push(transaction);
+    while (history.length > MAX_HISTORY) {
+      const [forgotten] = history.splice(0, 1);
+      for (const entry of sessions.values()) {
+        entry.undo = entry.undo.filter((t) => t !== forgotten);
+        entry.redo = entry.redo.filter((t) => t !== forgotten);
+      }
+    }
+  }
+
+  // A new change makes the undone transactions unreachable, as in Studio
+  function pushUndo(entry: SessionHistory, transaction: Transaction) {
+    entry.undo.push(transaction);
+    entry.redo = [];
+  }
+
+  return {
+    begin(sessionId, name) {
+      const entry = sessionHistory(sessionId);
+      if (entry.open) {
+        throw new BridgeError(
+          "TRANSACTION_ACTIVE",
+          `Transaction "${entry.open.name}" is still open. Commit or roll it back first.`,
+          { transactionId: entry.open.id },
+        );
+      }
+      entry.open = {
+        id: crypto.randomUUID(),
+        name,
+        sessionId,
+        explicit: true,
+        status: "open",
+        operations: [],
+        startedAt: Date.now(),
+        finishedAt: null,
+      };
+      remember(entry.open);
+      return entry.open;
+    },
+
+    getOpen: (sessionId) => sessions.get(sessionId)?.open ?? null,
+
+    discard(sessionId) {
+      const entry = sessions.get(sessionId);
+      if (!entry?.open) return;
+      history.splice(history.indexOf(entry.open), 1);
+      entry.open = null;
+    },
+
+    finish(sessionId, status) {
+      const entry = sessionHistory(sessionId);
+      const transaction = entry.open;
+      if (!transaction) {
+        throw new BridgeError("NO_TRANSACTION", "No transaction is open");
+      }
+      transaction.status = status;
+      transaction.finishedAt = Date.now();
+      entry.open = null;
+      // Empty transactions leave no waypoint to undo
+      if (status === "committed" && transaction.operations.length > 0) {
+        pushUndo(entry, transaction);
+      }
+      return transaction;
+    },
+
+    idFor: (sessionId) =>
+      sessions.get(sessionId)?.open?.id ?? crypto.randomUUID(),
+
+    record(sessionId, transactionId, toolName) {
+      const entry = sessionHistory(sessionId);
+      if (entry.open?.id === transactionId) {
+        entry.open.operations.push(toolName);
+        return;
+      }
+      const now = Date.now();
+      const transaction: Transaction = {
+        id: transactionId,
+        name: toolName,
+        sessionId,
+        explicit: false,
+        status: "committed",
+        operations: [toolName],
+        startedAt: now,
+        finishedAt: now,
+      };
+      remember(transaction);
+      pushUndo(entry, transaction);
+    },
+
+    nextUndo: (sessionId) => sessions.get(sessionId)?.undo.at(-1) ?? null,
+    nextRedo: (sessionId) => sessions.get(sessionId)?.redo.at(-1) ?? null,
+
+    markUndone(transaction) {
+      const entry = sessionHistory(transaction.sessionId);
+      entry.undo = entry.undo.filter((t) => t !== transaction);
+      entry.redo.push(transaction);
+      transaction.status = "undone";
+    },
+
+    markRedone(transaction) {
+      const entry = sessionHistory(transaction.sessionId);
+      entry.redo = entry.redo.filter((t) => t !== transaction);
+      entry.undo.push(transaction);
+      transaction.status = "committed";
+    },
+
+    list: (sessionId) =>
+      history.filter((t) => !sessionId || t.sessionId === sessionId).reverse(),
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * Workflow engine
+ * Runs a declarative list of tool calls inside the server, so a multi-step
+ * build (an effect rig, say) costs the agent one round trip. Steps can use
+ * earlier results through ${...} references, repeat over lists and run
+ * conditionally.
+ */
+
+import { z } from "zod";
+import { BridgeError } from "../bridge/errors.js";
+import type { RequestProgress } from "../bridge/connection.js";
+import type { ErrorInfo } from "../types/messages.js";
+
+// Guards against loops over huge query results
+export const MAX_WORKFLOW_CALLS = 500;
+
+export interface WorkflowCondition {
+  value?: unknown;
+  equals?: unknown;
+  not_equals?: unknown;
+}
+
+export interface WorkflowStep {
+  tool?: string;
+  args?: Record<string, unknown>;
+  steps?: WorkflowStep[];
+  id?: string;
+  if?: string | WorkflowCondition;
+  for_each?: unknown;
+  as?: string;
+  continue_on_error?: boolean;
+}
+
+const VARIABLE_NAME = z
+  .string()
+  .regex(
+    /^[A-Za-z_][A-Za-z0-9_]*$/,
+    "Must be a letter or _ then letters, digits or _",
+  );
+
+const ConditionSchema = z
+  .object({
+    value: z.unknown().describe("Value to test, usually a ${...} reference"),
+    equals: z.unknown().optional(),
+    not_equals: z.unknown().optional(),
+  })
+  .strict();
+
+// Exported so tool listings can advertise it without expanding the recursion
+export const NestedStepsSchema: z.ZodType<WorkflowStep[]> = z
+  .array(z.lazy(() => WorkflowStepSchema))
+  .describe("Nested steps to run instead of a tool (same shape as a step)");
+
+export const WorkflowStepSchema: z.ZodType<WorkflowStep> = z.lazy(() =>
+  z
+    .object({
+      tool: z.string().optional().describe("Tool to call"),
+      args: z
+        .record(z.unknown())
+        .optional()
+        .describe("Tool arguments; strings may contain ${...} references"),
+      steps: NestedStepsSchema.optional(),
+      id: VARIABLE_NAME.optional().describe(
+        "Name to bind the tool's result to, e.g. 'beam' for ${beam.path}",
+      ),
+      if: z
+        .union([z.string(), ConditionSchema])
+        .optional()
+        .describe("Run only if this is truthy, or matches equals/not_equals"),
+      for_each: z
+        .unknown()
+        .optional()
+        .describe("List to repeat the step over, e.g. '${query.results}'"),
+      as: VARIABLE_NAME.optional().describe(
+        "Loop variable name (default: item)",
+      ),
+      continue_on_error: z
+        .boolean()
+        .optional()
+        .describe("Keep going if this step fails"),
+    })
+    .strict()
+    .refine(
+      (step) => (step.tool === undefined) !== (step.steps === undefined),
+      {
+        message: "A step needs either tool or steps",
+      },
+    )
+    .refine((step) => step.id === undefined || step.tool !== undefined, {
+      message: "id can only be set on tool steps",
+      path: ["id"],
+    }),
+);
+
+export interface StepRecord {
+  // Position in the workflow: "2" for the third step, "2.0[1]" for the first
+  // nested step in the second iteration of its loop
+  step: string;
+  tool: string;
+  id?: string;
+  status: "ok" | "error" | "skipped";
+  result?: unknown;
+  error?: ErrorInfo;
+}
+
+export interface WorkflowResult {
+  success: boolean;
+  // Tool calls made
+  calls: number;
+  steps: StepRecord[];
+  // Results bound with `id` at the top level
+  results: Record<string, unknown>;
+  error?: ErrorInfo;
+}
+
+export interface WorkflowRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+/**
+ * Runs one tool call, with every check a direct call would get
+ */
+export type ToolCaller = (
+  name: string,
+  args: Record<string, unknown>,
+) => Promise<unknown>;
+
+type Scope = Record<string, unknown>;
+
+const REFERENCE = /\$\{([^}]+)\}/g;
+const WHOLE_REFERENCE = /^\$\{([^}]+)\}$/;
+
+function toErrorInfo(error: unknown): ErrorInfo {
+  return error instanceof BridgeError
+    ? error.toErrorInfo()
+    : {
+        code: "OPERATION_FAILED",
+        message: error instanceof Error ? error.message : String(error),
+      };
+}
+
+// "beam.path", "query.results[0].path" or "query.results.0.path"
+function lookup(scope: Scope, expression: string, strict: boolean): unknown {
+  const [name, ...fields] = expression
+    .trim()
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".");
+  if (!name || !(name in scope)) {
+    throw new BridgeError(
+      "INVALID_REFERENCE",
+      `Unknown workflow variable in \${${expression}}`,
+      { reference: expression },
+    );
+  }
+  let value = scope[name];
+  for (const field of fields) {
+    value =
+      value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[field]
+        : undefined;
+  }
+  if (value === undefined && strict) {
+    throw new BridgeError("INVALID_REFERENCE", `\${${expression}} is not set`, {
+      reference: expression,
+    });
+  }
+  return value;
+}
+
+/**
+ * Replace ${...} references in a value. A string that is a single reference
+ * becomes the referenced value itself, so numbers and tables keep their type.
+ */
+export function resolveReferences(
+  value: unknown,
+  scope: Scope,
+  strict = true,
+): unknown {
+  if (typeof value === "string") {
+    const whole = WHOLE_REFERENCE.exec(value);
+    if (whole) return lookup(scope, whole[1]!, strict);
+    return value.replace(REFERENCE, (_, expression: string) => {
+      const resolved = lookup(scope, expression, strict);
+      return typeof resolved === "object" && resolved !== null
+        ? JSON.stringify(resolved)
+        : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveReferences(item, scope, strict));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveReferences(item, scope, strict),
+      ]),
+    );
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function conditionHolds(
+  condition: string | WorkflowCondition,
+  scope: Scope,
+): boolean {
+  if (typeof condition === "string") {
+    return isTruthy(resolveReferences(condition, scope, false));
+  }
+  const value = resolveReferences(condition.value, scope, false);
+  if ("equals" in condition) {
+    return isEqual(value, resolveReferences(condition.equals, scope, false));
+  }
+  if ("not_equals" in condition) {
+    return !isEqual(
+      value,
+      resolveReferences(condition.not_equals, scope, false),
+    );
+  }
+  return isTruthy(value);
+}
+
+/**
+ * Run `steps` in order, stopping at the first failed step unless it sets
+ * continue_on_error. Failures are reported in the result rather than thrown.
+ */
+export async function runWorkflow(
+  steps: WorkflowStep[],
+  callTool: ToolCaller,
+  options: WorkflowRunOptions = {},
+): Promise<WorkflowResult> {
+  const records: StepRecord[] = [];
+  const results: Scope = {};
+  let calls = 0;
+
+  async function runTool(step: WorkflowStep, label: string, scope: Scope) {
+    if (calls >= MAX_WORKFLOW_CALLS) {
+      throw new BridgeError(
+        "WORKFLOW_LIMIT",
+        `Workflow exceeded ${MAX_WORKFLOW_CALLS} tool calls`,
+      );
+    }
+    if (options.signal?.aborted) {
+      throw new BridgeError("CANCELLED", "Workflow cancelled");
+    }
+
+    const tool = step.tool!;
+    const record: StepRecord = {
+      step: label,
+      tool,
+      ...(step.id && { id: step.id }),
+      status: "ok",
+    };
+    records.push(record);
+
+    try {
+      const args = resolveReferences(step.args ?? {}, scope) as Record<
+        string,
+        unknown
+      >;
+      calls++;
+      options.onProgress?.({ progress: calls, message: `${label}: ${tool}` });
+      record.result = await callTool(tool, args);
+      return record.result;
+    } catch (error) {
+      record.status = "error";
+      record.error = toErrorInfo(error);
+      if (step.continue_on_error) return undefined;
+      throw error;
+    }
+  }
+
+  async function runOnce(step: WorkflowStep, label: string, scope: Scope) {
+    if (step.steps) {
+      // Bindings made inside a block stay inside it
+      await runSteps(step.steps, `${label}.`, { ...scope });
+      return undefined;
+    }
+    return runTool(step, label, scope);
+  }
+
+  async function runStep(step: WorkflowStep, label: string, scope: Scope) {
+    if (step.if !== undefined && !conditionHolds(step.if, scope)) {
+      records.push({
+        step: label,
+        tool: step.tool ?? "steps",
+        ...(step.id && { id: step.id }),
+        status: "skipped",
+      });
+      return;
+    }
+
+    if (step.for_each === undefined) {
+      const result = await runOnce(step, label, scope);
+      if (step.id) scope[step.id] = result;
+      return;
+    }
+
+    const items = resolveReferences(step.for_each, scope);
+    if (!Array.isArray(items)) {
+      throw new BridgeError(
+        "INVALID_REFERENCE",
+        `for_each in step ${label} is not a list`,
+        { step: label },
+      );
+    }
+    const loopResults: unknown[] = [];
+    for (const [index, item] of items.entries()) {
+      loopResults.push(
+        await runOnce(step, `${label}[${index}]`, {
+          ...scope,
+          [step.as ?? "item"]: item,
+        }),
+      );
+    }
+    if (step.id) scope[step.id] = loopResults;
+  }
+
+  async function runSteps(list: WorkflowStep[], prefix: string, scope: Scope) {
+    for (const [index, step] of list.entries()) {
+      await runStep(step, `${prefix}${index}`, scope);
+    }
+  }
+
+  try {
+    await runSteps(steps, "", results);
+    return { success: true, calls, steps: records, results };
+  } catch (error) {
+    return {
+      success: false,
+      calls,
+      steps: records,
+      results,
+      error: toErrorInfo(error),
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import {
+  PluginMessageSchema,
+  SerializedValueSchema,
+  ServerMessageSchema,
+} from "./messages.js";
+
+describe("SerializedValueSchema", () => {
+  test("accepts every typed value variant", () => {
+    const values = [
+      { _type: "Color3", r: 1, g: 0.5, b: 0 },
+      { _type: "Vector3", x: 1, y: 2, z: 3 },
+      { _type: "Vector2", x: 1, y: 2 },
+      {
+        _type: "CFrame",
+        position: { x: 0, y: 0, z: 0 },
+        rotation: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+      },
+      { _type: "NumberSequence", keypoints: [{ time: 0, value: 1 }] },
+      {
+        _type: "ColorSequence",
+        keypoints: [{ time: 0, color: { r: 1, g: 1, b: 1 } }],
+      },
+      { _type: "NumberRange", min: 0, max: 1 },
+      { _type: "UDim", scale: 0.5, offset: 10 },
+      {
+        _type: "UDim2",
+        x: { scale: 0, offset: 1 },
+        y: { scale: 1, offset: 0 },
+      },
+      { _type: "Enum", enum: "Material", value: "Neon" },
+      { _type: "Instance", path: "Workspace.Part" },
+      { _type: "unsupported", typeName: "Ray" },
+    ];
+    for (const value of values) {
+      expect(SerializedValueSchema.safeParse(value).success).toBe(true);
+    }
+  });
+
+  test("accepts primitives and plain tables", () => {
+    for (const value of ["fire", 2, true, null, { nested: { a: 1 } }]) {
+      expect(SerializedValueSchema.safeParse(value).success).toBe(true);
+    }
+  });
+
+  test("rejects malformed typed values", () => {
+    expect(
+      SerializedValueSchema.safeParse({ _type: "Color3", r: "red" }).success,
+    ).toBe(false);
+    expect(
+      SerializedValueSchema.safeParse({ _type: "NumberRange", min: 0 }).success,
+    ).toBe(false);
+  });
+});
+
+describe("message schemas", () => {
+  test("parses plugin handshakes", () => {
+    const parsed = PluginMessageSchema.parse({
+      type: "handshake",
+      params: { protocolVersion: 1, placeId: 42, methods: ["get_children"] },
+    });
+    expect(parsed.type).toBe("handshake");
+  });
+
+  test("rejects server-only messages from the plugin", () => {
+    const request = {
+      type: "request",
+      id: "1",
+      method: "get_children",
+      params: {},
+      timestamp: 0,
+    };
+    expect(PluginMessageSchema.safeParse(request).success).toBe(false);
+    expect(ServerMessageSchema.safeParse(request).success).toBe(true);
+  });
+});
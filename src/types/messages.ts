@@ -1,197 +1,477 @@
-export interface ErrorInfo {
-  code: string;
-  message: string;
-  details?: Record<string, unknown>;
-}
-
-export type MessageType = "request" | "response" | "event";
-
-export interface BridgeMessageBase {
-  id: string;
-  type: MessageType;
-  timestamp: number;
-}
-
-export interface BridgeRequest extends BridgeMessageBase {
-  type: "request";
-  method: string;
-  params: Record<string, unknown>;
-}
-
-export interface BridgeResponse extends BridgeMessageBase {
-  type: "response";
-  result?: unknown;
-  error?: ErrorInfo;
-}
-
-export interface BridgeEvent extends BridgeMessageBase {
-  type: "event";
-  method: string;
-  params: Record<string, unknown>;
-}
+/**
+ * Bridge protocol messages and serialized Roblox values
+ * Each shape is defined once as a zod schema; the TypeScript types are
+ * inferred from the schemas so runtime validation and types cannot drift.
+ */
 
+import { z } from "zod";
+
+// ============================================
+// Bridge Protocol
+// ============================================
+
+export const ErrorInfoSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+export type ErrorInfo = z.infer<typeof ErrorInfoSchema>;
+
+const messageBase = {
+  id: z.string(),
+  timestamp: z.number(),
+};
+
+export const BridgeRequestSchema = z.object({
+  ...messageBase,
+  type: z.literal("request"),
+  method: z.string(),
+  params: z.record(z.unknown()),
+  // Set on mutating requests; identical across retries of the same call
+  idempotencyKey: z.string().optional(),
+  // Set on mutating requests; requests sharing an id form one undo waypoint.
+  // Ids not opened with begin_transaction cover a single request.
+  transactionId: z.string().optional(),
+});
+export type BridgeRequest = z.infer<typeof BridgeRequestSchema>;
+
+export const BridgeResponseSchema = z.object({
+  ...messageBase,
+  type: z.literal("response"),
+  result: z.unknown().optional(),
+  error: ErrorInfoSchema.optional(),
+});
+export type BridgeResponse = z.infer<typeof BridgeResponseSchema>;
+
+export const BridgeEventSchema = z.object({
+  ...messageBase,
+  type: z.literal("event"),
+  method: z.string(),
+  params: z.record(z.unknown()),
+});
+export type BridgeEvent = z.infer<typeof BridgeEventSchema>;
+
+/**
+ * Sent to the plugin to abort an in-flight request. `id` is the request id.
+ */
+export const BridgeCancelSchema = z.object({
+  ...messageBase,
+  type: z.literal("cancel"),
+  reason: z.string().optional(),
+});
+export type BridgeCancel = z.infer<typeof BridgeCancelSchema>;
+
+/**
+ * Heartbeat sent by the server; the plugin echoes the id back in a `pong`
+ */
+export const BridgePingSchema = z.object({
+  ...messageBase,
+  type: z.literal("ping"),
+});
+export const BridgePongSchema = z.object({
+  ...messageBase,
+  type: z.literal("pong"),
+});
+export type BridgeHeartbeat =
+  z.infer<typeof BridgePingSchema> | z.infer<typeof BridgePongSchema>;
+
+/**
+ * Params of a plugin `progress` event tied to an in-flight request
+ */
+export const ProgressEventParamsSchema = z.object({
+  requestId: z.string(),
+  progress: z.number(),
+  total: z.number().optional(),
+  message: z.string().optional(),
+});
+export type ProgressEventParams = z.infer<typeof ProgressEventParamsSchema>;
+
+/**
+ * Params of an `instance_changed` event: the plugin saw changes to these
+ * instances (properties, attributes, tags, children, or removal). Without
+ * `paths`, anything may have changed, e.g. after an undo.
+ */
+export const InstanceChangedParamsSchema = z.object({
+  paths: z.array(z.string()).optional(),
+});
+export type InstanceChangedParams = z.infer<typeof InstanceChangedParamsSchema>;
+
+/**
+ * First message on a new socket, sent by the server
+ */
+export const BridgeWelcomeSchema = z.object({
+  type: z.literal("welcome"),
+  serverVersion: z.string(),
+  protocolVersion: z.number().int(),
+  minProtocolVersion: z.number().int(),
+  authRequired: z.boolean(),
+  timestamp: z.number(),
+});
+export type BridgeWelcome = z.infer<typeof BridgeWelcomeSchema>;
+
+export const HandshakeParamsSchema = z.object({
+  pluginVersion: z.string().optional(),
+  // Plugins that do not advertise a version speak protocol 1
+  protocolVersion: z.number().int().positive().optional(),
+  placeName: z.string().optional(),
+  placeId: z.union([z.string(), z.number()]).optional(),
+  // Omitted by plugins that predate capability negotiation
+  methods: z.array(z.string()).optional(),
+  pairingCode: z.string().optional(),
+  token: z.string().optional(),
+  // Session id from a previous `session` message, sent after a reload
+  resumeSession: z.string().optional(),
+});
+export type HandshakeParams = z.infer<typeof HandshakeParamsSchema>;
+
+export const BridgeHandshakeSchema = z.object({
+  type: z.literal("handshake"),
+  params: HandshakeParamsSchema,
+  timestamp: z.number().optional(),
+});
+export type BridgeHandshake = z.infer<typeof BridgeHandshakeSchema>;
+
+/**
+ * Sent after pairing with a code; the token replaces the code on reconnect
+ */
+export const BridgePairedSchema = z.object({
+  type: z.literal("paired"),
+  token: z.string(),
+  timestamp: z.number(),
+});
+export type BridgePaired = z.infer<typeof BridgePairedSchema>;
+
+export const BridgeSessionSchema = z.object({
+  type: z.literal("session"),
+  sessionId: z.string(),
+  resumed: z.boolean(),
+  timestamp: z.number(),
+});
+export type BridgeSession = z.infer<typeof BridgeSessionSchema>;
+
+/**
+ * Handshake rejections and protocol errors. `id` is set when the error is
+ * about a specific message.
+ */
+export const BridgeErrorMessageSchema = z.object({
+  type: z.literal("error"),
+  id: z.string().optional(),
+  error: ErrorInfoSchema,
+  timestamp: z.number(),
+});
+export type BridgeErrorMessage = z.infer<typeof BridgeErrorMessageSchema>;
+
+// Everything a plugin may send
+export const PluginMessageSchema = z.discriminatedUnion("type", [
+  BridgeHandshakeSchema,
+  BridgeResponseSchema,
+  BridgeEventSchema,
+  BridgePongSchema,
+]);
+export type PluginMessage = z.infer<typeof PluginMessageSchema>;
+
+// Everything the server may send
+export const ServerMessageSchema = z.discriminatedUnion("type", [
+  BridgeWelcomeSchema,
+  BridgePairedSchema,
+  BridgeSessionSchema,
+  BridgeErrorMessageSchema,
+  BridgeRequestSchema,
+  BridgeCancelSchema,
+  BridgePingSchema,
+]);
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+export type MessageType = PluginMessage["type"] | ServerMessage["type"];
+
+// Request/response traffic, as recorded and passed to event handlers
 export type BridgeMessage = BridgeRequest | BridgeResponse | BridgeEvent;
 
-export interface InstanceRef {
-  path: string;
-  class: string;
-  name: string;
-  id?: string;
-}
-
-export interface Color3Value {
-  _type: "Color3";
-  r: number;
-  g: number;
-  b: number;
-}
-
-export interface Vector3Value {
-  _type: "Vector3";
-  x: number;
-  y: number;
-  z: number;
-}
-
-export interface Vector2Value {
-  _type: "Vector2";
-  x: number;
-  y: number;
-}
-
-export interface CFrameValue {
-  _type: "CFrame";
-  position: { x: number; y: number; z: number };
-  rotation: number[];
-}
-
-export interface NumberSequenceKeypoint {
-  time: number;
-  value: number;
-  envelope?: number;
-}
-
-export interface NumberSequenceValue {
-  _type: "NumberSequence";
-  keypoints: NumberSequenceKeypoint[];
-}
-
-export interface ColorSequenceKeypoint {
-  time: number;
-  color: { r: number; g: number; b: number };
-}
-
-export interface ColorSequenceValue {
-  _type: "ColorSequence";
-  keypoints: ColorSequenceKeypoint[];
-}
-
-export interface NumberRangeValue {
-  _type: "NumberRange";
-  min: number;
-  max: number;
-}
-
-export interface UDimValue {
-  _type: "UDim";
-  scale: number;
-  offset: number;
-}
-
-export interface UDim2Value {
-  _type: "UDim2";
-  x: { scale: number; offset: number };
-  y: { scale: number; offset: number };
-}
-
-export interface EnumValue {
-  _type: "Enum";
-  enum: string;
-  value: string;
-}
-
-export interface InstanceValue {
-  _type: "Instance";
-  path: string;
-}
-
-export interface UnsupportedValue {
-  _type: "unsupported";
-  typeName: string;
-}
+// ============================================
+// Serialized Values
+// ============================================
+
+const xyz = { x: z.number(), y: z.number(), z: z.number() };
+const rgb = { r: z.number(), g: z.number(), b: z.number() };
+const udim = z.object({ scale: z.number(), offset: z.number() });
+
+export const Color3ValueSchema = z.object({
+  _type: z.literal("Color3"),
+  ...rgb,
+});
+export type Color3Value = z.infer<typeof Color3ValueSchema>;
+
+export const Vector3ValueSchema = z.object({
+  _type: z.literal("Vector3"),
+  ...xyz,
+});
+export type Vector3Value = z.infer<typeof Vector3ValueSchema>;
+
+export const Vector2ValueSchema = z.object({
+  _type: z.literal("Vector2"),
+  x: z.number(),
+  y: z.number(),
+});
+export type Vector2Value = z.infer<typeof Vector2ValueSchema>;
+
+// The plugin reports rotation as a 3x3 matrix; callers may also pass XYZ euler
+// angles in degrees, or omit rotation for identity
+export const CFrameValueSchema = z.object({
+  _type: z.literal("CFrame"),
+  position: z.object(xyz),
+  rotation: z.union([z.array(z.number()).length(9), z.object(xyz)]).optional(),
+});
+export type CFrameValue = z.infer<typeof CFrameValueSchema>;
+
+export const NumberSequenceKeypointSchema = z.object({
+  time: z.number(),
+  value: z.number(),
+  envelope: z.number().optional(),
+});
+export type NumberSequenceKeypoint = z.infer<
+  typeof NumberSequenceKeypointSchema
+>;
+
+export const NumberSequenceValueSchema = z.object({
+  _type: z.literal("NumberSequence"),
+  keypoints: z.array(NumberSequenceKeypointSchema),
+});
+export type NumberSequenceValue = z.infer<typeof NumberSequenceValueSchema>;
+
+export const ColorSequenceKeypointSchema = z.object({
+  time: z.number(),
+  color: z.object(rgb),
+});
+export type ColorSequenceKeypoint = z.infer<typeof ColorSequenceKeypointSchema>;
+
+export const ColorSequenceValueSchema = z.object({
+  _type: z.literal("ColorSequence"),
+  keypoints: z.array(ColorSequenceKeypointSchema),
+});
+export type ColorSequenceValue = z.infer<typeof ColorSequenceValueSchema>;
+
+export const NumberRangeValueSchema = z.object({
+  _type: z.literal("NumberRange"),
+  min: z.number(),
+  max: z.number(),
+});
+export type NumberRangeValue = z.infer<typeof NumberRangeValueSchema>;
+
+export const UDimValueSchema = z.object({
+  _type: z.literal("UDim"),
+  scale: z.number(),
+  offset: z.number(),
+});
+export type UDimValue = z.infer<typeof UDimValueSchema>;
+
+export const UDim2ValueSchema = z.object({
+  _type: z.literal("UDim2"),
+  x: udim,
+  y: udim,
+});
+export type UDim2Value = z.infer<typeof UDim2ValueSchema>;
+
+export const EnumValueSchema = z.object({
+  _type: z.literal("Enum"),
+  enum: z.string(),
+  value: z.string(),
+});
+export type EnumValue = z.infer<typeof EnumValueSchema>;
+
+export const InstanceValueSchema = z.object({
+  _type: z.literal("Instance"),
+  path: z.string(),
+});
+export type InstanceValue = z.infer<typeof InstanceValueSchema>;
+
+export const UnsupportedValueSchema = z.object({
+  _type: z.literal("unsupported"),
+  typeName: z.string(),
+});
+export type UnsupportedValue = z.infer<typeof UnsupportedValueSchema>;
+
+const TypedValueSchema = z.discriminatedUnion("_type", [
+  Color3ValueSchema,
+  Vector3ValueSchema,
+  Vector2ValueSchema,
+  CFrameValueSchema,
+  NumberSequenceValueSchema,
+  ColorSequenceValueSchema,
+  NumberRangeValueSchema,
+  UDimValueSchema,
+  UDim2ValueSchema,
+  EnumValueSchema,
+  InstanceValueSchema,
+  UnsupportedValueSchema,
+]);
+
+const TYPED_VALUE_TAGS = new Set<unknown>(TypedValueSchema.optionsMap.keys());
 
 export type SerializedValue =
-  | Color3Value
-  | Vector3Value
-  | Vector2Value
-  | CFrameValue
-  | NumberSequenceValue
-  | ColorSequenceValue
-  | NumberRangeValue
-  | UDimValue
-  | UDim2Value
-  | EnumValue
-  | InstanceValue
-  | UnsupportedValue
+  | z.infer<typeof TypedValueSchema>
   | string
   | number
   | boolean
   | null
   | Record<string, unknown>;
 
-export type ValueType =
-  | "string"
-  | "number"
-  | "boolean"
-  | "Color3"
-  | "Vector3"
-  | "Vector2"
-  | "CFrame"
-  | "NumberSequence"
-  | "ColorSequence"
-  | "NumberRange"
-  | "UDim"
-  | "UDim2"
-  | "Enum"
-  | "Instance";
-
-export interface QueryResult {
-  results: InstanceRef[];
-  total: number;
-  limited: boolean;
-}
-
-export interface PropertyResult {
-  properties: Record<string, SerializedValue>;
-}
-
-export interface AttributeInfo {
-  value: SerializedValue;
-  type: string;
-}
-
-export interface AttributesResult {
-  attributes: Record<string, AttributeInfo>;
-}
-
-export interface InstanceInfo extends InstanceRef {
-  parent?: string;
-  attributes?: Record<string, SerializedValue>;
-  tags?: string[];
-  children?: InstanceRef[];
-}
-
-export interface OperationResult {
-  success: boolean;
-  path?: string;
-  class?: string;
-  affected_count?: number;
-}
-
-export interface SelectionResult {
-  selection: string[];
-}
-
-export interface ExistsResult {
-  exists: boolean;
-}
+// Tables with a known `_type` are checked against that variant, so errors
+// point at the bad field (e.g. `r` of a Color3) rather than the whole value.
+// Other tables, including types without a variant here (Rect, Font,
+// BrickColor), pass through.
+export const SerializedValueSchema: z.ZodType<SerializedValue> = z
+  .union([z.string(), z.number(), z.boolean(), z.null(), z.record(z.unknown())])
+  .superRefine((value, ctx) => {
+    if (!value || typeof value !== "object") return;
+    if (!TYPED_VALUE_TAGS.has(value._type)) return;
+
+    const parsed = TypedValueSchema.safeParse(value);
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => ctx.addIssue(issue));
+    }
+  });
+
+export const ValueTypeSchema = z.enum([
+  "string",
+  "number",
+  "boolean",
+  "Color3",
+  "Vector3",
+  "Vector2",
+  "CFrame",
+  "NumberSequence",
+  "ColorSequence",
+  "NumberRange",
+  "UDim",
+  "UDim2",
+  "Enum",
+  "Instance",
+]);
+export type ValueType = z.infer<typeof ValueTypeSchema>;
+
+// ============================================
+// Plugin Results
+// ============================================
+
+// Result objects pass unknown fields through, so newer plugins can add fields
+// without failing validation
+
+export const InstanceRefSchema = z
+  .object({
+    path: z.string(),
+    class: z.string(),
+    name: z.string(),
+    id: z.string().optional(),
+  })
+  .passthrough();
+export type InstanceRef = z.infer<typeof InstanceRefSchema>;
+
+export const QueryResultSchema = z
+  .object({
+    results: z.array(InstanceRefSchema),
+    total: z.number(),
+    limited: z.boolean(),
+  })
+  .passthrough();
+export type QueryResult = z.infer<typeof QueryResultSchema>;
+
+export const PropertyResultSchema = z
+  .object({
+    properties: z.record(SerializedValueSchema),
+  })
+  .passthrough();
+export type PropertyResult = z.infer<typeof PropertyResultSchema>;
+
+export const AttributeInfoSchema = z.object({
+  value: SerializedValueSchema,
+  type: z.string(),
+});
+export type AttributeInfo = z.infer<typeof AttributeInfoSchema>;
+
+export const AttributesResultSchema = z
+  .object({
+    attributes: z.record(AttributeInfoSchema),
+  })
+  .passthrough();
+export type AttributesResult = z.infer<typeof AttributesResultSchema>;
+
+export const InstanceInfoSchema = InstanceRefSchema.extend({
+  parent: z.string().optional(),
+  properties: z.record(SerializedValueSchema).optional(),
+  attributes: z.record(SerializedValueSchema).optional(),
+  tags: z.array(z.string()).optional(),
+  children: z.array(InstanceRefSchema).optional(),
+});
+export type InstanceInfo = z.infer<typeof InstanceInfoSchema>;
+
+// A change a mutating tool would make, reported instead of applied when the
+// tool is called with dry_run
+export const ChangePreviewSchema = z.object({
+  // Instance path, or collision group name(s) for collision group changes
+  target: z.string(),
+  kind: z.enum([
+    "property",
+    "attribute",
+    "tag",
+    "selection",
+    "create",
+    "clone",
+    "delete",
+    "scale",
+    "collision_group",
+    "collidable",
+  ]),
+  // Property, attribute or tag name
+  name: z.string().optional(),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+export type ChangePreview = z.infer<typeof ChangePreviewSchema>;
+
+export const OperationResultSchema = z
+  .object({
+    success: z.boolean(),
+    path: z.string().optional(),
+    class: z.string().optional(),
+    affected_count: z.number().optional(),
+    // Per-instance outcomes of bulk creation and cloning
+    results: z
+      .array(
+        z
+          .object({ path: z.string().optional(), class: z.string().optional() })
+          .passthrough(),
+      )
+      .optional(),
+    dry_run: z.boolean().optional(),
+    changes: z.array(ChangePreviewSchema).optional(),
+  })
+  .passthrough();
+export type OperationResult = z.infer<typeof OperationResultSchema>;
+
+export const SelectionResultSchema = z
+  .object({
+    selection: z.array(z.string()),
+  })
+  .passthrough();
+export type SelectionResult = z.infer<typeof SelectionResultSchema>;
+
+export const ExistsResultSchema = z
+  .object({
+    exists: z.boolean(),
+  })
+  .passthrough();
+export type ExistsResult = z.infer<typeof ExistsResultSchema>;
+
+export const TagsResultSchema = z
+  .object({
+    tags: z.array(z.string()),
+  })
+  .passthrough();
+export type TagsResult = z.infer<typeof TagsResultSchema>;
+
+export const CollidableResultSchema = z
+  .object({
+    collidable: z.boolean(),
+  })
+  .passthrough();
+export type CollidableResult = z.infer<typeof CollidableResultSchema>;